@@ -5,34 +5,482 @@
 // Configuration
 // ============================================================================
 
+// Read once at startup; changing these requires a restart.
+// Hot-reloadable settings are in CONFIG_SETTINGS below.
 const PORT = Number(Deno.env.get("PORT")) || 3000;
-const COOKIE = Deno.env.get("INFINIAX_COOKIE");
-const UPSTREAM_URL = "https://infiniax.ai/api/chat/stream";
+const UPSTREAM_URL = Deno.env.get("INFINIAX_UPSTREAM_URL") || "https://infiniax.ai/api/chat/stream";
+const MODELS_URL = Deno.env.get("INFINIAX_MODELS_URL") || "https://infiniax.ai/api/models";
+const RESPONSE_CACHE = Deno.env.get("RESPONSE_CACHE");
+const RESPONSE_STORE = Deno.env.get("RESPONSE_STORE");
+const THREAD_STORE = Deno.env.get("THREAD_STORE");
+const BATCH_STORE = Deno.env.get("BATCH_STORE");
+const EMBEDDING_MODEL_PATH = Deno.env.get("EMBEDDING_MODEL_PATH");
+const EMBEDDING_MODEL = Deno.env.get("EMBEDDING_MODEL");
+const CACHE_MAX_ENTRIES = Number(Deno.env.get("CACHE_MAX_ENTRIES")) || 1000;
+const ADMIN_API_KEY = Deno.env.get("ADMIN_API_KEY");
+const USAGE_STORE = Deno.env.get("USAGE_STORE");
+const USAGE_FILE = Deno.env.get("USAGE_FILE") || "usage.jsonl";
+const CONFIG_STORE = Deno.env.get("CONFIG_STORE");
+const CONFIG_FILE = Deno.env.get("CONFIG_FILE") || "config.json";
+
+/**
+ * A PROXY_API_KEYS entry (see parseApiKeys).
+ */
+interface ApiKeyEntry {
+  key: string;
+  label?: string;
+  models?: string[];
+  web_search?: boolean;
+  rate_limit_rpm?: number;
+}
+
+/**
+ * A USAGE_QUOTAS entry, e.g.
+ * {"key":"team-a","model":"openai/gpt-4o","period":"daily","max_requests":500,"max_tokens":200000}
+ */
+interface QuotaEntry {
+  key?: string;
+  model?: string;
+  period?: "daily" | "monthly";
+  max_requests?: number;
+  max_tokens?: number;
+}
+
+/**
+ * A MODEL_ROUTES entry, e.g.
+ * {"model":"auto","traits":["coding"],"targets":["qwen/qwen3-coder-plus","x-ai/grok-code-fast-1"]}
+ */
+interface RouteEntry {
+  model?: string;
+  traits?: string[];
+  targets: string[];
+}
+
+/**
+ * Hot-reloadable settings. Each is read from its environment variable and
+ * can be overridden by the config document (CONFIG_STORE), which
+ * PATCH /admin/config updates at runtime. Keys are the lower-cased
+ * environment variable names.
+ */
+interface ProxyConfig {
+  infiniax_cookies: string[];
+  cookie_strategy: "round-robin" | "lru";
+  cookie_cooldown_seconds: number;
+  // Catalog entries replacing the built-in model list ([] = built-in list)
+  infiniax_models: Array<Record<string, unknown>>;
+  models_refresh_minutes: number;
+  model_aliases: Record<string, string>;
+  model_routes: RouteEntry[];
+  model_fallbacks: Record<string, string[]>;
+  // null = authentication disabled
+  proxy_api_keys: ApiKeyEntry[] | null;
+  usage_quotas: QuotaEntry[];
+  rate_limit_rpm: number;
+  rate_limit_burst: number;
+  max_concurrent_upstream: number;
+  upstream_queue_size: number;
+  upstream_queue_timeout_ms: number;
+  upstream_retries: number;
+  upstream_retry_base_ms: number;
+  json_repair_attempts: number;
+  image_fallback: "error" | "text";
+  max_image_mb: number;
+  cache_ttl_seconds: number;
+  thread_context_strategy: "trim" | "summarize";
+  thread_summary_model: string;
+  thread_max_context_tokens: number;
+  batch_concurrency: number;
+}
 
 // ============================================================================
 // Startup Validation
 // ============================================================================
 
-// Validate cookie - will show error on first request if not set
-// Note: Deno Deploy doesn't support Deno.exit(), so we handle this gracefully
+// Invalid settings are reported at startup and replaced by their defaults.
+// Note: Deno Deploy doesn't support Deno.exit(), so there they are only logged
+
+/**
+ * How one setting is read and validated.
+ * - env: environment variables, the first one set is used
+ * - parse: converts an environment value (may throw on malformed input)
+ * - check: returns an error message when a value is invalid
+ * - invalid: used instead of the default when the environment value is invalid
+ * - mask: how GET /admin/config shows a secret value
+ * - unmask: restores the entries of a PATCH value that are sent back masked
+ */
+interface ConfigSetting<T> {
+  env: string[];
+  default: T;
+  parse(raw: string): unknown;
+  check(value: unknown): string | null;
+  invalid?: T;
+  mask?(value: T): unknown;
+  unmask?(value: unknown, current: T): unknown;
+}
+
+function numberSetting(env: string, fallback: number, min: number, integer = false): ConfigSetting<number> {
+  return {
+    env: [env],
+    default: fallback,
+    parse: (raw) => Number(raw),
+    check: (value) =>
+      typeof value === "number" && Number.isFinite(value) && value >= min && (!integer || Number.isInteger(value))
+        ? null
+        : `must be ${integer ? "an integer" : "a number"} >= ${min}`,
+  };
+}
+
+function enumSetting<T extends string>(env: string, fallback: T, values: readonly T[]): ConfigSetting<T> {
+  return {
+    env: [env],
+    default: fallback,
+    parse: (raw) => raw,
+    check: (value) => values.includes(value as T) ? null : `must be one of ${values.join(", ")}`,
+  };
+}
+
+function jsonSetting<T>(env: string, fallback: T, check: (value: unknown) => string | null): ConfigSetting<T> {
+  return { env: [env], default: fallback, parse: (raw) => JSON.parse(raw), check };
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string" && item !== "");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: string) => value === undefined || typeof value === type;
+
+/**
+ * Parses the cookie list from INFINIAX_COOKIES (JSON array or one cookie per line),
+ * or the single INFINIAX_COOKIE.
+ */
+function parseCookies(raw: string): string[] {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith("[")) {
+    const list = JSON.parse(trimmed);
+    return Array.isArray(list) ? list.map((c) => typeof c === "string" ? c.trim() : c).filter(Boolean) : list;
+  }
+  // Cookies contain ";" so entries are separated by newlines
+  return trimmed.split(/\r?\n/).map((c) => c.trim()).filter(Boolean);
+}
+
+/**
+ * Parses PROXY_API_KEYS. Accepted formats:
+ * - Comma-separated keys: "sk-a,sk-b" (full access)
+ * - JSON array: [{"key":"sk-a","label":"team-a","models":["openai/gpt-4o"],"web_search":false,"rate_limit_rpm":30}]
+ * A blank value disables authentication.
+ */
+function parseApiKeys(raw: string): ApiKeyEntry[] | null {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (trimmed.startsWith("[")) {
+    return JSON.parse(trimmed);
+  }
+  return trimmed.split(",").map((k) => k.trim()).filter(Boolean).map((key) => ({ key }));
+}
+
+/**
+ * A short, non-reversible fingerprint (32-bit FNV-1a, hex) that tells
+ * secrets apart without revealing any of their characters.
+ */
+function shortHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// Masked secrets end with "…", which real cookies and API keys never contain.
+// Cookies start with a well-known name ("session="), so only a hash is shown
+const maskCookie = (cookie: string) => `cookie:${shortHash(cookie)}…`;
+const maskApiKey = (key: string) => key.slice(0, 8) + "…";
+const isMasked = (secret: string) => secret.includes("…");
+
+/**
+ * Returns the one secret whose masked form is the given value, or the
+ * value itself when none or several match (it is then rejected as masked).
+ */
+function unmaskSecret(value: string, secrets: string[], mask: (secret: string) => string): string {
+  const matches = secrets.filter((secret) => mask(secret) === value);
+  return matches.length === 1 ? matches[0] : value;
+}
+
+const CONFIG_SETTINGS: { [K in keyof ProxyConfig]: ConfigSetting<ProxyConfig[K]> } = {
+  infiniax_cookies: {
+    env: ["INFINIAX_COOKIES", "INFINIAX_COOKIE"],
+    default: [],
+    parse: parseCookies,
+    check: (value) =>
+      !isStringList(value)
+        ? "must be an array of cookie strings"
+        : value.some(isMasked)
+        ? "contains a masked cookie that matches no current cookie"
+        : null,
+    mask: (cookies) => cookies.map(maskCookie),
+    unmask: (value, cookies) =>
+      isStringList(value) ? value.map((c) => unmaskSecret(c, cookies, maskCookie)) : value,
+  },
+  cookie_strategy: enumSetting("COOKIE_STRATEGY", "round-robin", ["round-robin", "lru"] as const),
+  cookie_cooldown_seconds: numberSetting("COOKIE_COOLDOWN_SECONDS", 300, 0),
+  infiniax_models: jsonSetting("INFINIAX_MODELS", [], (value) =>
+    Array.isArray(value) && value.every((m) => isRecord(m) && typeof m.id === "string" && m.id)
+      ? null
+      : "must be an array of models with an id"),
+  models_refresh_minutes: numberSetting("MODELS_REFRESH_MINUTES", 60, 0),
+  model_aliases: jsonSetting("MODEL_ALIASES", {}, (value) =>
+    isRecord(value) && Object.values(value).every((v) => typeof v === "string")
+      ? null
+      : "must be an object mapping names to model ids"),
+  model_routes: jsonSetting("MODEL_ROUTES", [], (value) =>
+    Array.isArray(value) && value.every((r) =>
+      isRecord(r) && isStringList(r.targets) && r.targets.length > 0 &&
+      isOptional(r.model, "string") && (r.traits === undefined || isStringList(r.traits))
+    )
+      ? null
+      : "must be an array of {model, traits, targets} rules with at least one target"),
+  model_fallbacks: jsonSetting("MODEL_FALLBACKS", {}, (value) =>
+    isRecord(value) && Object.values(value).every(isStringList)
+      ? null
+      : "must be an object mapping model ids to arrays of model ids"),
+  proxy_api_keys: {
+    env: ["PROXY_API_KEYS"],
+    default: null,
+    parse: parseApiKeys,
+    check: (value) => {
+      if (value === null) {
+        return null;
+      }
+      if (!Array.isArray(value) || !value.every((e) =>
+        isRecord(e) && typeof e.key === "string" && e.key !== "" && isOptional(e.label, "string") &&
+        (e.models === undefined || isStringList(e.models)) && isOptional(e.web_search, "boolean") &&
+        isOptional(e.rate_limit_rpm, "number")
+      )) {
+        return "must be an array of {key, label, models, web_search, rate_limit_rpm} entries";
+      }
+      return value.some((e) => isMasked(e.key)) ? "contains a masked key that matches no current key" : null;
+    },
+    // Fail closed: a malformed key list must not silently open the proxy
+    invalid: [],
+    mask: (entries) => entries && entries.map((e) => ({ ...e, key: maskApiKey(e.key) })),
+    unmask: (value, entries) =>
+      Array.isArray(value)
+        ? value.map((e) =>
+          isRecord(e) && typeof e.key === "string"
+            ? { ...e, key: unmaskSecret(e.key, (entries ?? []).map((x) => x.key), maskApiKey) }
+            : e
+        )
+        : value,
+  },
+  usage_quotas: jsonSetting("USAGE_QUOTAS", [], (value) =>
+    Array.isArray(value) && value.every((q) =>
+      isRecord(q) && isOptional(q.key, "string") && isOptional(q.model, "string") &&
+      (q.period === undefined || q.period === "daily" || q.period === "monthly") &&
+      isOptional(q.max_requests, "number") && isOptional(q.max_tokens, "number")
+    )
+      ? null
+      : "must be an array of {key, model, period, max_requests, max_tokens} rules"),
+  rate_limit_rpm: numberSetting("RATE_LIMIT_RPM", 0, 0),
+  rate_limit_burst: numberSetting("RATE_LIMIT_BURST", 0, 0),
+  max_concurrent_upstream: numberSetting("MAX_CONCURRENT_UPSTREAM", 0, 0, true),
+  upstream_queue_size: numberSetting("UPSTREAM_QUEUE_SIZE", 32, 0, true),
+  upstream_queue_timeout_ms: numberSetting("UPSTREAM_QUEUE_TIMEOUT_MS", 30000, 1),
+  upstream_retries: numberSetting("UPSTREAM_RETRIES", 2, 0, true),
+  upstream_retry_base_ms: numberSetting("UPSTREAM_RETRY_BASE_MS", 250, 0),
+  json_repair_attempts: numberSetting("JSON_REPAIR_ATTEMPTS", 2, 0, true),
+  image_fallback: enumSetting("IMAGE_FALLBACK", "error", ["error", "text"] as const),
+  max_image_mb: numberSetting("MAX_IMAGE_MB", 5, 0),
+  cache_ttl_seconds: numberSetting("CACHE_TTL_SECONDS", 3600, 1),
+  thread_context_strategy: enumSetting("THREAD_CONTEXT_STRATEGY", "trim", ["trim", "summarize"] as const),
+  thread_summary_model: {
+    env: ["THREAD_SUMMARY_MODEL"],
+    default: "openai/gpt-5-nano",
+    parse: (raw) => raw,
+    check: (value) => typeof value === "string" && value !== "" ? null : "must be a model id",
+  },
+  thread_max_context_tokens: numberSetting("THREAD_MAX_CONTEXT_TOKENS", 0, 0, true),
+  batch_concurrency: numberSetting("BATCH_CONCURRENCY", 4, 1, true),
+};
+
+type ConfigSource = "default" | "env" | "config";
+
+/**
+ * Resolves every setting: the config document wins over the environment,
+ * which wins over the default (blank environment variables count as unset).
+ * Invalid values fall back to the next source and are reported in errors
+ * as "<name> <problem>".
+ */
+function resolveConfig(document: Record<string, unknown>): {
+  config: ProxyConfig;
+  sources: Record<keyof ProxyConfig, ConfigSource>;
+  errors: Array<{ source: ConfigSource; message: string }>;
+} {
+  const config: Record<string, unknown> = {};
+  const sources: Record<string, ConfigSource> = {};
+  const errors: Array<{ source: ConfigSource; message: string }> = [];
+
+  for (const [key, setting] of Object.entries(CONFIG_SETTINGS) as Array<[keyof ProxyConfig, ConfigSetting<unknown>]>) {
+    config[key] = setting.default;
+    sources[key] = "default";
+
+    const name = setting.env.find((env) => Deno.env.get(env)?.trim());
+    if (name) {
+      let value: unknown;
+      let problem: string | null;
+      try {
+        value = setting.parse(Deno.env.get(name)!);
+        problem = setting.check(value);
+      } catch {
+        problem = "is not valid JSON";
+      }
+      if (problem) {
+        errors.push({ source: "env", message: `${name} ${problem}` });
+        config[key] = setting.invalid ?? setting.default;
+      } else {
+        config[key] = value;
+        sources[key] = "env";
+      }
+    }
+
+    if (document[key] !== undefined) {
+      const problem = setting.check(document[key]);
+      if (problem) {
+        errors.push({ source: "config", message: `${key} ${problem}` });
+      } else {
+        config[key] = document[key];
+        sources[key] = "config";
+      }
+    }
+  }
+
+  return { config: config as unknown as ProxyConfig, sources, errors };
+}
+
+const startupConfig = resolveConfig({});
+for (const error of startupConfig.errors) {
+  log("error", "Invalid setting, using its default", { error: error.message });
+}
+
+/**
+ * The current settings. Replaced as a whole (never mutated) by applyConfig,
+ * so code reading config.* always sees one consistent version.
+ */
+let config: ProxyConfig = startupConfig.config;
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAITool {
+  type: "function";
+  function: { name: string; description?: string; parameters?: Record<string, unknown> };
+}
+
+type OpenAIToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+interface OpenAIContentPart {
+  type: string; // "text" | "image_url"
+  text?: string;
+  image_url?: { url: string; detail?: string } | string;
+}
+
+interface OpenAIMessage {
+  role: string;
+  content: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAIResponseFormat {
+  type: "text" | "json_object" | "json_schema";
+  json_schema?: {
+    name?: string;
+    description?: string;
+    schema?: Record<string, unknown>;
+    strict?: boolean;
+  };
+}
+
+interface OpenAIStreamOptions {
+  include_usage?: boolean;
+}
+
 interface OpenAIRequest {
   model: string;
-  messages: Array<{ role: string; content: string }>;
+  messages: OpenAIMessage[];
   stream?: boolean;
+  stream_options?: OpenAIStreamOptions;
   temperature?: number;
+  top_p?: number;
   max_tokens?: number;
+  max_completion_tokens?: number;
+  stop?: string | string[] | null;
+  n?: number;
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  logit_bias?: Record<string, number>;
+  logprobs?: boolean;
+  top_logprobs?: number;
+  user?: string;
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  parallel_tool_calls?: boolean;
+  response_format?: OpenAIResponseFormat;
   web_search?: boolean; // Custom field to enable web search
+  thread_id?: string; // Custom field to continue a server-side thread
+}
+
+interface InfiniaxAttachment {
+  type: "image";
+  url: string; // https URL or data: URL
+  mimeType?: string;
+}
+
+interface InfiniaxMessage {
+  role: string;
+  content: string;
+  attachments?: InfiniaxAttachment[];
 }
 
 interface InfiniaxRequest {
   modelId: string;
-  messages: Array<{ role: string; content: string }>;
+  messages: InfiniaxMessage[];
   webSearchEnabled?: boolean;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  completion_tokens_details?: { reasoning_tokens: number };
+}
+
+interface UrlCitation {
+  url: string;
+  title?: string;
+}
+
+interface OpenAIAnnotation {
+  type: "url_citation";
+  url_citation: { url: string; title: string; start_index: number; end_index: number };
 }
 
 interface OpenAIResponse {
@@ -42,9 +490,16 @@ interface OpenAIResponse {
   model: string;
   choices: Array<{
     index: number;
-    message: { role: string; content: string };
+    message: {
+      role: string;
+      content: string | null;
+      reasoning_content?: string;
+      tool_calls?: OpenAIToolCall[];
+      annotations?: OpenAIAnnotation[];
+    };
     finish_reason: string;
   }>;
+  usage: OpenAIUsage;
 }
 
 interface OpenAIStreamChunk {
@@ -54,467 +509,8627 @@ interface OpenAIStreamChunk {
   model: string;
   choices: Array<{
     index: number;
-    delta: { role?: string; content?: string };
+    delta: {
+      role?: string;
+      content?: string;
+      reasoning_content?: string;
+      tool_calls?: Array<OpenAIToolCall & { index: number }>;
+      annotations?: OpenAIAnnotation[];
+    };
     finish_reason: string | null;
   }>;
+  usage?: OpenAIUsage;
 }
 
-// ============================================================================
-// Request Transformation
-// ============================================================================
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
 
-/**
- * Transforms an OpenAI chat completion request to infiniax API format.
- * - model → modelId (direct passthrough)
- * - messages → messages (direct passthrough)
- * - web_search → webSearchEnabled (optional)
- */
-export function transformRequest(openaiReq: OpenAIRequest): InfiniaxRequest {
-  const result: InfiniaxRequest = {
-    modelId: openaiReq.model,
-    messages: openaiReq.messages,
-  };
-  
-  // Enable web search if requested
-  if (openaiReq.web_search) {
-    result.webSearchEnabled = true;
-  }
-  
-  return result;
+interface AnthropicRequest {
+  model: string;
+  system?: string | AnthropicContentBlock[];
+  messages: Array<{ role: string; content: string | AnthropicContentBlock[] }>;
+  max_tokens: number;
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  tools?: Array<{ type?: string; name: string }>;
+  web_search?: boolean; // Custom field to enable web search
+}
+
+interface AnthropicResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+interface ResponsesContentPart {
+  type: string; // "input_text" | "output_text" | "input_image"
+  text?: string;
+  image_url?: string;
+  detail?: string;
+}
+
+interface ResponsesInputItem {
+  type?: string; // "message" (default)
+  role?: string;
+  content?: string | ResponsesContentPart[];
+}
+
+interface ResponsesTool {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface ResponsesRequest {
+  model: string;
+  input: string | ResponsesInputItem[];
+  instructions?: string;
+  previous_response_id?: string;
+  stream?: boolean;
+  store?: boolean;
+  tools?: ResponsesTool[];
+  temperature?: number;
+  top_p?: number;
+  max_output_tokens?: number;
+  text?: { format?: { type: string; name?: string; description?: string; schema?: Record<string, unknown>; strict?: boolean } };
+  metadata?: Record<string, string>;
+  web_search?: boolean; // Custom field to enable web search
+}
+
+interface ResponsesAnnotation {
+  type: "url_citation";
+  url: string;
+  title: string;
+  start_index: number;
+  end_index: number;
+}
+
+interface ResponsesOutputText {
+  type: "output_text";
+  text: string;
+  annotations: ResponsesAnnotation[];
+}
+
+type ResponsesOutputItem =
+  | { type: "reasoning"; id: string; summary: Array<{ type: "summary_text"; text: string }> }
+  | { type: "message"; id: string; status: string; role: "assistant"; content: ResponsesOutputText[] };
+
+interface ResponsesUsage {
+  input_tokens: number;
+  output_tokens: number;
+  output_tokens_details: { reasoning_tokens: number };
+  total_tokens: number;
+}
+
+interface ResponseObject {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: "in_progress" | "completed" | "incomplete" | "failed";
+  model: string;
+  instructions: string | null;
+  previous_response_id: string | null;
+  output: ResponsesOutputItem[];
+  incomplete_details: { reason: string } | null;
+  error: { code: string; message: string } | null;
+  usage: ResponsesUsage | null;
+  store: boolean;
+  temperature: number | null;
+  top_p: number | null;
+  max_output_tokens: number | null;
+  tools: ResponsesTool[];
+  metadata: Record<string, string>;
+}
+
+interface CompletionRequest {
+  model: string;
+  prompt: string | string[];
+  stream?: boolean;
+  stream_options?: OpenAIStreamOptions;
+  echo?: boolean;
+  suffix?: string | null;
+  best_of?: number;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string | string[] | null;
+  n?: number;
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  logit_bias?: Record<string, number>;
+  logprobs?: number | null;
+  user?: string;
+  web_search?: boolean; // Custom field to enable web search
+}
+
+interface CompletionResponse {
+  id: string;
+  object: "text_completion";
+  created: number;
+  model: string;
+  choices: Array<{
+    text: string;
+    index: number;
+    logprobs: null;
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface FileObject {
+  id: string;
+  object: "file";
+  bytes: number;
+  created_at: number;
+  expires_at: number;
+  filename: string;
+  purpose: "batch" | "batch_output";
+  status: "processed";
+}
+
+type BatchStatus =
+  | "validating"
+  | "failed"
+  | "in_progress"
+  | "finalizing"
+  | "completed"
+  | "expired"
+  | "cancelling"
+  | "cancelled";
+
+interface BatchError {
+  code: string;
+  message: string;
+  param: string | null;
+  line: number | null;
+}
+
+interface BatchObject {
+  id: string;
+  object: "batch";
+  endpoint: string;
+  errors: { object: "list"; data: BatchError[] } | null;
+  input_file_id: string;
+  completion_window: "24h";
+  status: BatchStatus;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  created_at: number;
+  in_progress_at: number | null;
+  expires_at: number;
+  finalizing_at: number | null;
+  completed_at: number | null;
+  failed_at: number | null;
+  expired_at: number | null;
+  cancelling_at: number | null;
+  cancelled_at: number | null;
+  request_counts: { total: number; completed: number; failed: number };
+  metadata: Record<string, string> | null;
 }
 
 // ============================================================================
-// Response Transformation
+// Observability (request IDs, structured logs, metrics)
 // ============================================================================
 
+type LogLevel = "info" | "warn" | "error";
+
 /**
- * Generates a unique ID for OpenAI response format.
+ * Writes one JSON log line: {"time":...,"level":...,"msg":...,...fields}.
+ * Error values are logged by message.
  */
-function generateId(): string {
-  return "chatcmpl-" + crypto.randomUUID().replace(/-/g, "").slice(0, 24);
+function log(level: LogLevel, msg: string, fields: Record<string, unknown> = {}): void {
+  const line = JSON.stringify(
+    { time: new Date().toISOString(), level, msg, ...fields },
+    (_key, value) => value instanceof Error ? value.message : value
+  );
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
 }
 
 /**
- * Transforms an infiniax stream chunk to OpenAI SSE delta format.
- * Input: Raw text content from infiniax stream
- * Output: SSE formatted string "data: {json}\n\n"
- * 
- * Requirements: 4.1, 4.2
+ * Per-request state, logged and counted once the request ends. Streamed
+ * responses end when the stream does, not when the handler returns.
+ * Durations are in milliseconds from the start of the request.
  */
-export function transformStreamChunk(
-  content: string,
-  model: string,
-  responseId: string,
-  created: number,
-  isFirst: boolean = false
-): string {
-  const chunk: OpenAIStreamChunk = {
-    id: responseId,
-    object: "chat.completion.chunk",
-    created: created,
-    model: model,
-    choices: [
-      {
-        index: 0,
-        delta: isFirst ? { role: "assistant", content: content } : { content: content },
-        finish_reason: null,
-      },
-    ],
-  };
-  return `data: ${JSON.stringify(chunk)}\n\n`;
+interface RequestContext {
+  id: string;
+  method: string;
+  route: string;
+  startedAt: number;
+  caller?: string;
+  model?: string;
+  status?: number;
+  errorClass?: string;
+  upstreamMs?: number;
+  ttftMs?: number;
+  streamMs?: number;
+  usage?: OpenAIUsage;
+  // Rate limit bucket the request was charged to (extra upstream calls go to it too)
+  rateLimitClient?: string;
+  // A usage meter is running (the request reached upstream); it reports the final outcome
+  metered: boolean;
+  meterFinished: boolean;
+  // Response returned while the meter was running (streaming); log when it finishes
+  deferred: boolean;
+  logged: boolean;
 }
 
+const requestContexts = new WeakMap<Request, RequestContext>();
+
+// Route labels for logs and metrics (ids in paths are replaced by {id})
+const ROUTE_LABELS: Array<[RegExp, string]> = [
+  [/^\/v1\/models\/.+$/, "/v1/models/{id}"],
+  [/^\/v1\/responses\/[^/]+$/, "/v1/responses/{id}"],
+  [/^\/v1\/threads\/[^/]+$/, "/v1/threads/{id}"],
+  [/^\/v1\/threads\/[^/]+\/messages$/, "/v1/threads/{id}/messages"],
+  [/^\/v1\/files\/[^/]+$/, "/v1/files/{id}"],
+  [/^\/v1\/files\/[^/]+\/content$/, "/v1/files/{id}/content"],
+  [/^\/v1\/batches\/[^/]+$/, "/v1/batches/{id}"],
+  [/^\/v1\/batches\/[^/]+\/cancel$/, "/v1/batches/{id}/cancel"],
+  [/^\/v1\/(batches|chat\/completions|completions|embeddings|files|messages|models|responses|threads)$/, ""],
+  [/^\/admin\/(config|pool|stats|usage)$/, ""],
+  [/^\/admin\/?$/, "/admin"],
+  [/^\/(metrics)?$/, ""],
+];
+
 /**
- * Creates the final SSE chunk indicating stream completion.
+ * Maps a request path to a low-cardinality route label ("other" for unknown paths).
  */
-export function createStreamEndChunk(
-  model: string,
-  responseId: string,
-  created: number
-): string {
-  const chunk: OpenAIStreamChunk = {
-    id: responseId,
-    object: "chat.completion.chunk",
-    created: created,
-    model: model,
-    choices: [
-      {
-        index: 0,
-        delta: {},
-        finish_reason: "stop",
-      },
-    ],
-  };
-  return `data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`;
+function routeLabel(path: string): string {
+  const match = ROUTE_LABELS.find(([pattern]) => pattern.test(path));
+  return match ? match[1] || path : "other";
 }
 
 /**
- * Transforms a complete infiniax response to OpenAI chat completion format.
- * Used for non-streaming responses.
- * 
- * Requirements: 5.1, 5.2
+ * Starts tracking a request. A valid client-supplied X-Request-Id is kept,
+ * otherwise a new id is generated.
  */
-export function transformResponse(
-  content: string,
-  model: string
-): OpenAIResponse {
-  return {
-    id: generateId(),
-    object: "chat.completion",
-    created: Math.floor(Date.now() / 1000),
-    model: model,
-    choices: [
-      {
-        index: 0,
-        message: {
-          role: "assistant",
-          content: content,
-        },
-        finish_reason: "stop",
-      },
-    ],
+function startRequest(req: Request): RequestContext {
+  const supplied = req.headers.get("x-request-id");
+  const ctx: RequestContext = {
+    id: supplied && /^[\w.-]{1,64}$/.test(supplied) ? supplied : crypto.randomUUID().replace(/-/g, "").slice(0, 24),
+    method: req.method,
+    route: routeLabel(new URL(req.url).pathname),
+    startedAt: Date.now(),
+    metered: false,
+    meterFinished: false,
+    deferred: false,
+    logged: false,
   };
+  requestContexts.set(req, ctx);
+  return ctx;
 }
 
-// ============================================================================
-// Error Response Helpers
-// ============================================================================
-
 /**
- * Creates a standardized error response in OpenAI error format.
- * Requirements: 3.4, 7.1, 7.2, 7.3
+ * Returns the context of a request (a detached one if it did not pass through handler).
  */
-function errorResponse(message: string, status: number): Response {
-  return new Response(
-    JSON.stringify({ error: { message } }),
-    {
-      status,
-      headers: { "Content-Type": "application/json" },
+function requestContext(req: Request): RequestContext {
+  return requestContexts.get(req) ?? startRequest(req);
+}
+
+/**
+ * Completes a request in handler: tags the response with X-Request-Id and
+ * logs it, unless a stream is still running (its meter logs it when done;
+ * settleWithBody makes sure it is logged once the body ends either way).
+ */
+async function finishRequest(ctx: RequestContext, response: Response): Promise<Response> {
+  response.headers.set("x-request-id", ctx.id);
+  ctx.status ??= response.status;
+  if (response.status >= 400 && !ctx.errorClass) {
+    ctx.errorClass = await errorClassOf(response);
+  }
+  if (ctx.metered && !ctx.meterFinished) {
+    ctx.deferred = true;
+    return settleWithBody(ctx, response);
+  }
+  endRequest(ctx);
+  return response;
+}
+
+/**
+ * Ends a deferred request when its body is done, fails or is cancelled, in
+ * case its meter never finished, so it always leaves requestStats.active.
+ * A cancel that the meter did not record counts as a client disconnect.
+ */
+function settleWithBody(ctx: RequestContext, response: Response): Response {
+  if (!response.body) {
+    endRequest(ctx);
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          endRequest(ctx);
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+        endRequest(ctx);
+      }
+    },
+    async cancel(reason) {
+      try {
+        await reader.cancel(reason);
+      } finally {
+        if (!ctx.meterFinished) {
+          ctx.status = 499;
+          ctx.errorClass ??= "client_disconnected";
+        }
+        endRequest(ctx);
+      }
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Error class of an error response: the error code, or its type.
+ */
+async function errorClassOf(response: Response): Promise<string> {
+  try {
+    const body = await response.clone().json();
+    return body.error?.code || body.error?.type || errorTypeForStatus(response.status);
+  } catch {
+    return errorTypeForStatus(response.status);
+  }
+}
+
+/**
+ * Writes the request log line and records its metrics (once).
+ */
+function endRequest(ctx: RequestContext): void {
+  if (ctx.logged) return;
+  ctx.logged = true;
+  const status = ctx.status ?? 500;
+  const durationMs = Date.now() - ctx.startedAt;
+  if (status >= 400) {
+    ctx.errorClass ??= errorTypeForStatus(status);
+  }
+
+  log(status >= 500 ? "error" : status >= 400 ? "warn" : "info", "request", {
+    request_id: ctx.id,
+    method: ctx.method,
+    route: ctx.route,
+    caller: ctx.caller,
+    model: ctx.model,
+    status,
+    error_class: ctx.errorClass,
+    duration_ms: durationMs,
+    upstream_ms: ctx.upstreamMs,
+    ttft_ms: ctx.ttftMs,
+    stream_ms: ctx.streamMs,
+    prompt_tokens: ctx.usage?.prompt_tokens,
+    completion_tokens: ctx.usage?.completion_tokens,
+  });
+  recordRequestMetrics(ctx, status, durationMs);
+  recordRequestStats(ctx, status, durationMs);
+}
+
+// Finished requests kept for GET /admin/stats
+const RECENT_REQUESTS_LIMIT = 50;
+
+/**
+ * Live request stats of this instance, served by GET /admin/stats
+ * (the dashboard). Metrics cover the same requests in Prometheus form.
+ */
+const requestStats = {
+  startedAt: Date.now(),
+  active: new Set<RequestContext>(),
+  routes: new Map<string, { requests: number; errors: number; totalMs: number }>(),
+  recent: [] as Array<Record<string, unknown>>,
+};
+
+function recordRequestStats(ctx: RequestContext, status: number, durationMs: number): void {
+  requestStats.active.delete(ctx);
+
+  const route = requestStats.routes.get(ctx.route) ?? { requests: 0, errors: 0, totalMs: 0 };
+  route.requests++;
+  route.errors += status >= 400 ? 1 : 0;
+  route.totalMs += durationMs;
+  requestStats.routes.set(ctx.route, route);
+
+  requestStats.recent.push({
+    id: ctx.id,
+    time: new Date(ctx.startedAt).toISOString(),
+    method: ctx.method,
+    route: ctx.route,
+    caller: ctx.caller ?? null,
+    model: ctx.model ?? null,
+    status,
+    error_class: ctx.errorClass ?? null,
+    duration_ms: durationMs,
+  });
+  if (requestStats.recent.length > RECENT_REQUESTS_LIMIT) {
+    requestStats.recent.shift();
+  }
+}
+
+// Histogram buckets in seconds
+const METRIC_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+interface HistogramSeries {
+  counts: number[]; // per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+/**
+ * In-memory metrics of this instance, keyed by formatted label set.
+ */
+const metrics = {
+  requests: new Map<string, number>(),
+  tokens: new Map<string, number>(),
+  histograms: {
+    request_duration_seconds: new Map<string, HistogramSeries>(),
+    upstream_latency_seconds: new Map<string, HistogramSeries>(),
+    time_to_first_token_seconds: new Map<string, HistogramSeries>(),
+    stream_duration_seconds: new Map<string, HistogramSeries>(),
+  },
+};
+
+const METRIC_HELP = {
+  requests: "Requests handled, by route, model, status and error class.",
+  tokens: "Estimated tokens, by route, model and type (prompt or completion).",
+  request_duration_seconds: "Total request duration, including streaming.",
+  upstream_latency_seconds: "Time until upstream responded (headers for streams, the full answer otherwise).",
+  time_to_first_token_seconds: "Time until the first token was sent to the client (streams).",
+  stream_duration_seconds: "Time spent relaying an upstream stream.",
+};
+
+/**
+ * Formats Prometheus labels: {a="x",b="y"} (values escaped).
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return pairs.join(",");
+}
+
+function observe(series: Map<string, HistogramSeries>, labels: string, ms: number | undefined): void {
+  if (ms === undefined) return;
+  const seconds = ms / 1000;
+  let entry = series.get(labels);
+  if (!entry) {
+    entry = { counts: METRIC_BUCKETS.map(() => 0), sum: 0, count: 0 };
+    series.set(labels, entry);
+  }
+  const bucket = METRIC_BUCKETS.findIndex((le) => seconds <= le);
+  if (bucket !== -1) entry.counts[bucket]++;
+  entry.sum += seconds;
+  entry.count++;
+}
+
+function recordRequestMetrics(ctx: RequestContext, status: number, durationMs: number): void {
+  const base = { route: ctx.route, model: ctx.model ?? "" };
+  const requestLabels = formatLabels({ ...base, status: String(status), error_class: ctx.errorClass ?? "" });
+  metrics.requests.set(requestLabels, (metrics.requests.get(requestLabels) ?? 0) + 1);
+
+  if (ctx.usage) {
+    for (const [type, count] of [["prompt", ctx.usage.prompt_tokens], ["completion", ctx.usage.completion_tokens]] as const) {
+      const tokenLabels = formatLabels({ ...base, type });
+      metrics.tokens.set(tokenLabels, (metrics.tokens.get(tokenLabels) ?? 0) + count);
+    }
+  }
+
+  const labels = formatLabels(base);
+  observe(metrics.histograms.request_duration_seconds, labels, durationMs);
+  observe(metrics.histograms.upstream_latency_seconds, labels, ctx.upstreamMs);
+  observe(metrics.histograms.time_to_first_token_seconds, labels, ctx.ttftMs);
+  observe(metrics.histograms.stream_duration_seconds, labels, ctx.streamMs);
+}
+
+/**
+ * Renders all metrics in the Prometheus text exposition format.
+ */
+function renderMetrics(): string {
+  const lines: string[] = [];
+  const counter = (name: keyof typeof METRIC_HELP, values: Map<string, number>) => {
+    lines.push(`# HELP infiniax_${name}_total ${METRIC_HELP[name]}`, `# TYPE infiniax_${name}_total counter`);
+    for (const [labels, value] of values) {
+      lines.push(`infiniax_${name}_total{${labels}} ${value}`);
+    }
+  };
+  counter("requests", metrics.requests);
+  counter("tokens", metrics.tokens);
+
+  for (const [name, series] of Object.entries(metrics.histograms)) {
+    const metric = `infiniax_${name}`;
+    lines.push(`# HELP ${metric} ${METRIC_HELP[name as keyof typeof METRIC_HELP]}`, `# TYPE ${metric} histogram`);
+    for (const [labels, entry] of series) {
+      let cumulative = 0;
+      METRIC_BUCKETS.forEach((le, i) => {
+        cumulative += entry.counts[i];
+        lines.push(`${metric}_bucket{${labels},le="${le}"} ${cumulative}`);
+      });
+      lines.push(
+        `${metric}_bucket{${labels},le="+Inf"} ${entry.count}`,
+        `${metric}_sum{${labels}} ${entry.sum}`,
+        `${metric}_count{${labels}} ${entry.count}`
+      );
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Handles GET /metrics (Prometheus scrape endpoint).
+ */
+function handleMetrics(): Response {
+  return new Response(renderMetrics(), {
+    status: 200,
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
+
+// ============================================================================
+// Client Authentication
+// ============================================================================
+
+/**
+ * Access policy attached to a proxy API key.
+ * - models: allowed INFINIAX_MODELS ids (undefined = all models)
+ * - webSearch: whether web_search may be enabled
+ * - label: human-readable name used in logs
+ * - rateLimitRpm: per-key override of RATE_LIMIT_RPM
+ */
+interface ApiKeyPolicy {
+  key: string;
+  label?: string;
+  models?: string[];
+  webSearch: boolean;
+  rateLimitRpm?: number;
+}
+
+/**
+ * Builds the key → policy map from the proxy_api_keys setting.
+ * Returns null when no keys are configured (authentication disabled).
+ */
+function buildApiKeyPolicies(entries: ApiKeyEntry[] | null): Map<string, ApiKeyPolicy> | null {
+  if (!entries) {
+    return null;
+  }
+  return new Map(entries.map((entry) => [entry.key, {
+    key: entry.key,
+    label: entry.label,
+    models: entry.models,
+    webSearch: entry.web_search !== false,
+    rateLimitRpm: entry.rate_limit_rpm,
+  }]));
+}
+
+// Rebuilt by applyConfig
+let apiKeyPolicies: Map<string, ApiKeyPolicy> | null = null;
+
+/**
+ * Policy used when PROXY_API_KEYS is not set: every caller has full access.
+ */
+const OPEN_POLICY: ApiKeyPolicy = { key: "", webSearch: true };
+
+/**
+ * Resolves the caller's policy from the Authorization: Bearer header
+ * (or x-api-key, as sent by Anthropic SDKs).
+ * Returns an OpenAI-style 401 error response for missing or unknown keys.
+ */
+function authenticate(req: Request): ApiKeyPolicy | Response {
+  if (!apiKeyPolicies) {
+    return OPEN_POLICY;
+  }
+
+  const auth = req.headers.get("Authorization") || "";
+  const apiKey = auth.match(/^Bearer\s+(.+)$/i)?.[1] || req.headers.get("x-api-key");
+  if (!apiKey) {
+    return errorResponse(
+      "You didn't provide an API key. You need to provide your API key in an Authorization header using Bearer auth (i.e. Authorization: Bearer YOUR_KEY).",
+      401,
+      "missing_api_key"
+    );
+  }
+
+  const policy = apiKeyPolicies.get(apiKey.trim());
+  if (!policy) {
+    return errorResponse("Incorrect API key provided.", 401, "invalid_api_key");
+  }
+
+  return policy;
+}
+
+/**
+ * Returns true if the policy allows the given model id.
+ */
+function isModelAllowed(policy: ApiKeyPolicy, model: string): boolean {
+  return !policy.models || policy.models.includes(model);
+}
+
+/**
+ * Checks a request against the caller's policy (model and web_search access).
+ * Returns null when allowed, otherwise a 403 error response.
+ */
+function checkPolicy(policy: ApiKeyPolicy, openaiReq: OpenAIRequest): Response | null {
+  if (!isModelAllowed(policy, openaiReq.model)) {
+    return errorResponse(
+      `This API key is not allowed to use model '${openaiReq.model}'`,
+      403,
+      "model_not_allowed"
+    );
+  }
+  if (openaiReq.web_search && !policy.webSearch) {
+    return errorResponse(
+      "This API key is not allowed to use web_search",
+      403,
+      "web_search_not_allowed"
+    );
+  }
+  return null;
+}
+
+/**
+ * Returns a display name for the caller in logs and usage reports: the
+ * key's label, or a masked key prefix, or "anonymous" when authentication
+ * is disabled. Not unique: keys sharing a prefix look the same.
+ */
+function callerId(policy: ApiKeyPolicy): string {
+  if (policy.label) return policy.label;
+  if (policy.key) return maskApiKey(policy.key);
+  return "anonymous";
+}
+
+/**
+ * Identifies a caller in stored state, usage counters and quotas: a hash
+ * of the API key, never the key itself.
+ */
+async function ownerId(policy: ApiKeyPolicy): Promise<string> {
+  return policy.key ? await sha256Hex(policy.key) : "anonymous";
+}
+
+/**
+ * Checks the Authorization: Bearer header against ADMIN_API_KEY.
+ * Admin routes are disabled entirely when ADMIN_API_KEY is not set.
+ * Returns null when the caller is authorized, otherwise an error response.
+ */
+function authenticateAdmin(req: Request): Response | null {
+  if (!ADMIN_API_KEY) {
+    return errorResponse("Admin API is disabled (ADMIN_API_KEY is not set)", 403, "admin_disabled");
+  }
+
+  const auth = req.headers.get("Authorization") || "";
+  const match = auth.match(/^Bearer\s+(.+)$/i);
+  if (!match || match[1].trim() !== ADMIN_API_KEY) {
+    return errorResponse("Incorrect admin API key provided.", 401, "invalid_api_key");
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Upstream Cookie Pool
+// ============================================================================
+
+/**
+ * A single infiniax session cookie and its health state.
+ * - benchedUntil: epoch ms until which the cookie is skipped (0 = healthy)
+ * - lastUsed: epoch ms of the last selection (used by the LRU strategy)
+ */
+interface CookieEntry {
+  id: number;
+  cookie: string;
+  benchedUntil: number;
+  lastUsed: number;
+  lastStatus: number | null;
+  successes: number;
+  failures: number;
+}
+
+let cookiePool: CookieEntry[] = [];
+let cookieCursor = 0;
+
+/**
+ * Replaces the cookie pool with the given cookies. Cookies already in the
+ * pool keep their health and counters; new ones start healthy.
+ */
+function loadCookiePool(cookies: string[]): void {
+  const previous = new Map(cookiePool.map((c) => [c.cookie, c]));
+  cookiePool = cookies.map((cookie, id) => ({
+    benchedUntil: 0,
+    lastUsed: 0,
+    lastStatus: null,
+    successes: 0,
+    failures: 0,
+    ...previous.get(cookie),
+    id,
+    cookie,
+  }));
+  cookieCursor = 0;
+}
+
+/**
+ * Picks the next healthy cookie using the configured strategy,
+ * skipping cookies in `exclude` (already tried for this request).
+ * Returns null when every cookie is benched or excluded.
+ */
+function selectCookie(exclude: Set<number>): CookieEntry | null {
+  const now = Date.now();
+  const healthy = cookiePool.filter((c) => c.benchedUntil <= now && !exclude.has(c.id));
+  if (healthy.length === 0) {
+    return null;
+  }
+
+  let selected: CookieEntry;
+  if (config.cookie_strategy === "lru") {
+    selected = healthy.reduce((a, b) => (b.lastUsed < a.lastUsed ? b : a));
+  } else {
+    // Round-robin: first healthy cookie at or after the cursor
+    selected = healthy.find((c) => c.id >= cookieCursor) || healthy[0];
+    cookieCursor = (selected.id + 1) % cookiePool.length;
+  }
+
+  selected.lastUsed = now;
+  return selected;
+}
+
+/**
+ * Benches a cookie after an auth (401/403) or rate-limit (429) response.
+ * Honors the upstream Retry-After header when present.
+ */
+function benchCookie(entry: CookieEntry, status: number, retryAfter: string | null): void {
+  const retryAfterMs = Number(retryAfter) * 1000;
+  const cooldown = retryAfterMs > 0 ? retryAfterMs : config.cookie_cooldown_seconds * 1000;
+  entry.benchedUntil = Date.now() + cooldown;
+  entry.lastStatus = status;
+  entry.failures++;
+  log("warn", "Cookie benched", { cookie: entry.id, cooldown_s: Math.round(cooldown / 1000), upstream_status: status });
+}
+
+/**
+ * Records a successful upstream call for a cookie.
+ */
+function markCookieSuccess(entry: CookieEntry, status: number): void {
+  entry.lastStatus = status;
+  entry.successes++;
+}
+
+/**
+ * Returns the earliest time (epoch ms) at which a benched cookie becomes healthy again.
+ */
+function nextCookieAvailableAt(): number {
+  return Math.min(...cookiePool.map((c) => c.benchedUntil));
+}
+
+// ============================================================================
+// Rate Limiting & Upstream Concurrency
+// ============================================================================
+
+/**
+ * Token bucket state for one client.
+ */
+interface RateLimitBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Outcome of a rate limit check, used for the x-ratelimit-* headers.
+ */
+interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // time until the bucket is full again
+  retryAfterSeconds: number; // time until the next request is allowed
+}
+
+const rateLimitBuckets = new Map<string, RateLimitBucket>();
+
+// Sweep full (idle) buckets once the map grows past this size
+const RATE_LIMIT_SWEEP_SIZE = 10_000;
+
+/**
+ * Takes cost tokens (default one) from the client's bucket (capacity = burst,
+ * refilled at rpm per minute). Nothing is taken when the bucket cannot cover them.
+ */
+function takeRateLimitToken(clientId: string, rpm: number, burst: number, cost = 1): RateLimitResult {
+  const now = Date.now();
+  const perMs = rpm / 60000;
+
+  if (rateLimitBuckets.size > RATE_LIMIT_SWEEP_SIZE) {
+    for (const [id, b] of rateLimitBuckets) {
+      if (b.tokens + (now - b.updatedAt) * perMs >= burst) rateLimitBuckets.delete(id);
     }
+  }
+
+  const bucket = rateLimitBuckets.get(clientId) || { tokens: burst, updatedAt: now };
+  bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * perMs);
+  bucket.updatedAt = now;
+
+  const allowed = bucket.tokens >= cost;
+  if (allowed) {
+    bucket.tokens -= cost;
+  }
+  rateLimitBuckets.set(clientId, bucket);
+
+  return {
+    allowed,
+    limit: burst,
+    remaining: Math.floor(bucket.tokens),
+    resetSeconds: Math.ceil((burst - bucket.tokens) / perMs / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((Math.min(cost, burst) - bucket.tokens) / perMs / 1000),
+  };
+}
+
+/**
+ * Returns the client address: the connection's remote address when available,
+ * otherwise the first X-Forwarded-For entry.
+ */
+function clientIp(req: Request, info?: Deno.ServeHandlerInfo): string {
+  const addr = info?.remoteAddr;
+  if (addr && "hostname" in addr) {
+    return addr.hostname;
+  }
+  return req.headers.get("X-Forwarded-For")?.split(",")[0].trim() || "unknown";
+}
+
+/**
+ * Builds the OpenAI-style x-ratelimit-* headers for a rate limit result.
+ */
+function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    "x-ratelimit-limit-requests": String(result.limit),
+    "x-ratelimit-remaining-requests": String(result.remaining),
+    "x-ratelimit-reset-requests": `${result.resetSeconds}s`,
+  };
+}
+
+/**
+ * Applies the per-client rate limit (API key, or IP when authentication is disabled).
+ * Returns null when rate limiting is disabled, otherwise the check result.
+ */
+function checkRateLimit(
+  req: Request,
+  policy: ApiKeyPolicy,
+  info?: Deno.ServeHandlerInfo,
+  cost = 1
+): RateLimitResult | null {
+  const rpm = policy.rateLimitRpm ?? config.rate_limit_rpm;
+  if (rpm <= 0) {
+    return null;
+  }
+  const ctx = requestContext(req);
+  ctx.rateLimitClient ??= policy.key ? `key:${policy.key}` : `ip:${clientIp(req, info)}`;
+  return takeRateLimitToken(ctx.rateLimitClient, rpm, config.rate_limit_burst || rpm, cost);
+}
+
+/**
+ * Charges a request that fans out to several upstream calls (n > 1, several
+ * prompts) for the calls beyond the one the router charged: against its
+ * max_requests quotas and the caller's rate limit. Returns a 429 when
+ * either cannot cover them.
+ */
+async function chargeUpstreamCalls(
+  req: Request,
+  policy: ApiKeyPolicy,
+  model: string,
+  calls: number
+): Promise<Response | null> {
+  const overQuota = await checkQuotas(policy, model, calls);
+  if (overQuota || calls <= 1) {
+    return overQuota;
+  }
+  const rateLimit = checkRateLimit(req, policy, undefined, calls - 1);
+  return rateLimit && !rateLimit.allowed ? rateLimitErrorResponse(rateLimit) : null;
+}
+
+/**
+ * Creates the 429 response for a rejected rate limit check.
+ */
+function rateLimitErrorResponse(result: RateLimitResult): Response {
+  return errorResponse(
+    `Rate limit reached: ${result.limit} requests per minute. Please try again in ${result.retryAfterSeconds}s.`,
+    429,
+    "rate_limit_exceeded",
+    { "Retry-After": String(result.retryAfterSeconds), ...rateLimitHeaders(result) }
   );
 }
 
+let activeUpstream = 0;
+const upstreamQueue: Array<() => void> = [];
+
+/**
+ * Releases an upstream slot, handing it to the next queued request if any.
+ */
+function releaseUpstreamSlot(): void {
+  const next = upstreamQueue.shift();
+  if (next) {
+    next();
+  } else {
+    activeUpstream--;
+  }
+}
+
+/**
+ * Acquires one of MAX_CONCURRENT_UPSTREAM upstream slots, waiting in a bounded
+ * queue (UPSTREAM_QUEUE_SIZE) for at most UPSTREAM_QUEUE_TIMEOUT_MS.
+ * Returns a release function (call exactly once), or a 429 error response.
+ */
+function acquireUpstreamSlot(): Promise<{ release: () => void } | { error: Response }> {
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    releaseUpstreamSlot();
+  };
+
+  const { max_concurrent_upstream: limit, upstream_queue_size: queueSize, upstream_queue_timeout_ms: timeoutMs } = config;
+  if (limit <= 0) {
+    return Promise.resolve({ release: () => {} });
+  }
+  if (activeUpstream < limit) {
+    activeUpstream++;
+    return Promise.resolve({ release });
+  }
+  if (upstreamQueue.length >= queueSize) {
+    return Promise.resolve({
+      error: errorResponse(
+        "The server is handling too many requests, please retry later",
+        429,
+        "upstream_queue_full",
+        { "Retry-After": "1" }
+      ),
+    });
+  }
+
+  return new Promise((resolve) => {
+    const waiter = () => {
+      clearTimeout(timer);
+      resolve({ release });
+    };
+    const timer = setTimeout(() => {
+      upstreamQueue.splice(upstreamQueue.indexOf(waiter), 1);
+      resolve({
+        error: errorResponse(
+          `Timed out after ${timeoutMs / 1000}s waiting for an upstream slot, please retry later`,
+          429,
+          "upstream_queue_timeout",
+          { "Retry-After": "1" }
+        ),
+      });
+    }, timeoutMs);
+    upstreamQueue.push(waiter);
+  });
+}
+
+/**
+ * Wraps a response so `release` runs once its body has been fully read,
+ * errored or cancelled (the upstream call is in flight until then).
+ */
+function releaseOnBodyEnd(response: Response, release: () => void): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+// ============================================================================
+// Request Transformation
+// ============================================================================
+
+/**
+ * Transforms an OpenAI chat completion request to infiniax API format.
+ * - model → modelId (direct passthrough)
+ * - messages → messages (tool calls and tool results folded into text,
+ *   image_url parts → attachments, or a text note for text-only models)
+ * - tools → tool instructions injected as a system message
+ * - response_format → JSON formatting instructions injected as a system message
+ * - web_search → webSearchEnabled (optional)
+ * - temperature / top_p / max_tokens → temperature / topP / maxTokens (optional;
+ *   stop, max_tokens and n are also enforced proxy-side)
+ */
+export function transformRequest(openaiReq: OpenAIRequest): InfiniaxRequest {
+  const messages = foldToolMessages(openaiReq.messages, supportsImages(openaiReq.model));
+
+  if (isJsonMode(openaiReq)) {
+    messages.unshift({ role: "system", content: buildJsonFormatPrompt(openaiReq) });
+  }
+  if (hasToolEmulation(openaiReq)) {
+    messages.unshift({ role: "system", content: buildToolPrompt(openaiReq) });
+  }
+
+  const result: InfiniaxRequest = {
+    modelId: openaiReq.model,
+    messages,
+  };
+  
+  // Enable web search if requested
+  if (openaiReq.web_search) {
+    result.webSearchEnabled = true;
+  }
+
+  // Forward the sampling parameters infiniax accepts
+  if (openaiReq.temperature !== undefined) {
+    result.temperature = openaiReq.temperature;
+  }
+  if (openaiReq.top_p !== undefined) {
+    result.topP = openaiReq.top_p;
+  }
+  const maxTokens = maxOutputTokens(openaiReq);
+  if (maxTokens !== null) {
+    result.maxTokens = maxTokens;
+  }
+  
+  return result;
+}
+
+// ============================================================================
+// Multimodal Content
+// ============================================================================
+
+/**
+ * Models in INFINIAX_MODELS that accept image input
+ * (used when the upstream catalog does not report capabilities).
+ */
+const VISION_MODELS = new Set([
+  "amazon/nova-2-lite-v1:free",
+  "mistralai/ministral-14b-2512",
+  "z-ai/glm-4.6v",
+  "anthropic/claude-opus-4.5",
+  "google/gemini-3-pro-preview",
+  "openai/gpt-5-pro",
+  "openai/gpt-5.1",
+  "openai/gpt-5.1-chat",
+  "openai/gpt-5.1-codex-max",
+  "openai/gpt-5",
+  "openai/gpt-5-mini",
+  "openai/gpt-5-nano",
+  "openai/gpt-4o",
+  "openai/gpt-4-turbo",
+  "anthropic/claude-opus-4.1",
+  "anthropic/claude-sonnet-4",
+  "anthropic/claude-haiku-4.5",
+  "anthropic/claude-sonnet-4.5",
+  "anthropic/claude-3.7-sonnet",
+  "anthropic/claude-3-opus",
+  "google/gemini-2.5-pro",
+  "google/gemini-2.5-flash",
+  "google/gemini-flash-1.5",
+  "x-ai/grok-4",
+  "x-ai/grok-4-fast",
+  "x-ai/grok-4.1-fast",
+  "x-ai/grok-4.1-fast:reasoning",
+  "meta-llama/llama-4-scout",
+  "meta-llama/llama-4-maverick",
+  "mistralai/mistral-medium-3.1",
+]);
+
+/**
+ * Returns true if the model accepts image input.
+ */
+function supportsImages(model: string): boolean {
+  return getModel(model)?.capabilities.vision ?? VISION_MODELS.has(model);
+}
+
+/**
+ * Returns the text of message content (string or content parts).
+ * Non-text parts are ignored.
+ */
+function contentText(content: string | OpenAIContentPart[] | null | undefined): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .filter((part) => part.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Returns the URL of an image_url part (object or bare string form).
+ */
+function imageUrlOf(part: OpenAIContentPart): string {
+  return typeof part.image_url === "string" ? part.image_url : part.image_url?.url || "";
+}
+
+/**
+ * Validates content parts in a request:
+ * - only "text" and "image_url" parts are supported
+ * - image URLs must be https: or base64 data:image/... URLs
+ * - inline images must not exceed MAX_IMAGE_BYTES
+ * - text-only models reject images unless IMAGE_FALLBACK=text
+ * Returns null when valid, otherwise a 400 error response.
+ */
+function checkContentParts(openaiReq: OpenAIRequest): Response | null {
+  let imageCount = 0;
+
+  for (const msg of openaiReq.messages) {
+    if (msg.content === null || typeof msg.content === "string") {
+      continue;
+    }
+    if (!Array.isArray(msg.content)) {
+      return errorResponse("Message content must be a string or an array of content parts", 400, "invalid_content");
+    }
+
+    for (const part of msg.content) {
+      if (part.type === "text") {
+        continue;
+      }
+      if (part.type !== "image_url") {
+        return errorResponse(`Content part type '${part.type}' is not supported`, 400, "unsupported_content_type");
+      }
+
+      const url = imageUrlOf(part);
+      if (url.startsWith("data:")) {
+        const match = url.match(/^data:(image\/[\w.+-]+);base64,(.*)$/s);
+        if (!match) {
+          return errorResponse("Inline images must be base64 data:image/... URLs", 400, "invalid_image_url");
+        }
+        const bytes = Math.floor(match[2].length * 3 / 4);
+        if (bytes > config.max_image_mb * 1024 * 1024) {
+          return errorResponse(
+            `Inline image is too large (${(bytes / 1024 / 1024).toFixed(1)} MB, limit ${config.max_image_mb} MB)`,
+            400,
+            "image_too_large"
+          );
+        }
+      } else if (!url.startsWith("https://")) {
+        return errorResponse("Image URLs must use https: or data: URLs", 400, "invalid_image_url");
+      }
+      imageCount++;
+    }
+  }
+
+  if (imageCount > 0 && !supportsImages(openaiReq.model) && config.image_fallback === "error") {
+    return errorResponse(
+      `Model '${openaiReq.model}' does not support image input`,
+      400,
+      "model_not_multimodal"
+    );
+  }
+  return null;
+}
+
+/**
+ * Converts OpenAI message content into an infiniax message.
+ * - text parts → content (joined by newlines)
+ * - image_url parts → attachments (or a text note when images are not allowed)
+ */
+function toInfiniaxMessage(
+  role: string,
+  content: string | OpenAIContentPart[] | null,
+  allowImages: boolean
+): InfiniaxMessage {
+  const message: InfiniaxMessage = { role, content: contentText(content) };
+  if (!Array.isArray(content)) {
+    return message;
+  }
+
+  const images = content.filter((part) => part.type === "image_url").map(imageUrlOf).filter(Boolean);
+  if (images.length === 0) {
+    return message;
+  }
+
+  if (!allowImages) {
+    // Text-only fallback (IMAGE_FALLBACK=text)
+    const note = `[${images.length} image(s) omitted: this model does not support image input]`;
+    message.content = [message.content, note].filter(Boolean).join("\n");
+    return message;
+  }
+
+  message.attachments = images.map((url) => {
+    const mimeType = url.match(/^data:(image\/[\w.+-]+);/)?.[1];
+    return mimeType ? { type: "image", url, mimeType } : { type: "image", url };
+  });
+  return message;
+}
+
+// ============================================================================
+// Tool Calling Emulation
+// ============================================================================
+
+// infiniax has no native tool API: tool schemas are described in the prompt and
+// the model replies with <tool_call>{"name":...,"arguments":{...}}</tool_call> blocks.
+const TOOL_CALL_OPEN = "<tool_call>";
+const TOOL_CALL_CLOSE = "</tool_call>";
+
+/**
+ * Returns true if tool calls should be emulated for this request.
+ */
+function hasToolEmulation(openaiReq: OpenAIRequest): boolean {
+  return !!openaiReq.tools?.length && openaiReq.tool_choice !== "none";
+}
+
+/**
+ * Builds the system prompt describing the available tools and the call format.
+ */
+function buildToolPrompt(openaiReq: OpenAIRequest): string {
+  const tools = (openaiReq.tools || []).map((t) => ({
+    name: t.function.name,
+    description: t.function.description,
+    parameters: t.function.parameters,
+  }));
+
+  const lines = [
+    "# Tools",
+    "",
+    "You can call the following tools (described as JSON Schema):",
+    JSON.stringify(tools),
+    "",
+    "To call a tool, reply with a block in exactly this format and write nothing after it:",
+    `${TOOL_CALL_OPEN}`,
+    `{"name": "tool_name", "arguments": {"arg": "value"}}`,
+    `${TOOL_CALL_CLOSE}`,
+    "",
+    "Tool results are sent back to you in <tool_result> blocks.",
+  ];
+
+  const choice = openaiReq.tool_choice;
+  if (choice === "required") {
+    lines.push("You MUST call at least one tool in this reply.");
+  } else if (typeof choice === "object" && choice.function?.name) {
+    lines.push(`You MUST call the tool "${choice.function.name}" in this reply.`);
+  } else {
+    lines.push("If no tool is needed, answer directly without any tool_call blocks.");
+  }
+
+  if (openaiReq.parallel_tool_calls === false) {
+    lines.push("Call at most one tool per reply.");
+  } else {
+    lines.push("You may call several tools at once by writing several blocks.");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats a tool call as the text block the model is instructed to produce.
+ */
+function formatToolCallBlock(call: OpenAIToolCall): string {
+  let args: unknown = call.function.arguments;
+  try {
+    args = JSON.parse(call.function.arguments);
+  } catch {
+    // Keep the raw arguments string
+  }
+  return `${TOOL_CALL_OPEN}\n${JSON.stringify({ name: call.function.name, arguments: args })}\n${TOOL_CALL_CLOSE}`;
+}
+
+/**
+ * Folds assistant tool_calls and tool role messages into plain text messages,
+ * since infiniax only understands text content.
+ * - assistant.tool_calls → <tool_call> blocks appended to the content
+ * - tool → user message with a <tool_result> block (consecutive results merged)
+ * Other messages are converted with toInfiniaxMessage.
+ */
+function foldToolMessages(
+  messages: OpenAIMessage[],
+  allowImages: boolean
+): InfiniaxMessage[] {
+  const result: InfiniaxMessage[] = [];
+  const toolNames = new Map<string, string>();
+  let previousWasTool = false;
+
+  for (const msg of messages) {
+    if (msg.role === "tool") {
+      const name = toolNames.get(msg.tool_call_id || "") || msg.name || "";
+      const block = `<tool_result tool_call_id="${msg.tool_call_id || ""}" name="${name}">\n${contentText(msg.content)}\n</tool_result>`;
+      if (previousWasTool) {
+        result[result.length - 1].content += "\n" + block;
+      } else {
+        result.push({ role: "user", content: block });
+      }
+      previousWasTool = true;
+      continue;
+    }
+    previousWasTool = false;
+
+    if (msg.role === "assistant" && msg.tool_calls?.length) {
+      const blocks = msg.tool_calls.map((call) => {
+        toolNames.set(call.id, call.function.name);
+        return formatToolCallBlock(call);
+      });
+      result.push({
+        role: "assistant",
+        content: [contentText(msg.content), ...blocks].filter(Boolean).join("\n"),
+      });
+      continue;
+    }
+
+    result.push(toInfiniaxMessage(msg.role, msg.content, allowImages));
+  }
+
+  return result;
+}
+
+/**
+ * Generates a unique ID for a tool call.
+ */
+function generateToolCallId(): string {
+  return "call_" + crypto.randomUUID().replace(/-/g, "").slice(0, 24);
+}
+
+/**
+ * Parses the body of a <tool_call> block into an OpenAI tool call.
+ * Returns null if the body is not a valid {"name","arguments"} object.
+ */
+function parseToolCallBody(body: string): OpenAIToolCall | null {
+  const json = body.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const data = JSON.parse(json);
+    if (!data || typeof data.name !== "string") {
+      return null;
+    }
+    const args = data.arguments ?? data.parameters ?? {};
+    return {
+      id: generateToolCallId(),
+      type: "function",
+      function: {
+        name: data.name,
+        arguments: typeof args === "string" ? args : JSON.stringify(args),
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Segment of model output: plain text or a parsed tool call.
+ */
+type ToolStreamSegment =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; call: OpenAIToolCall };
+
+/**
+ * Creates an incremental parser that splits streamed model output into text
+ * and tool call segments. Text that may be the start of a <tool_call> marker
+ * is held back until it can be decided, so markers split across chunks work.
+ */
+function createToolCallParser() {
+  let buffer = "";
+
+  const drain = (final: boolean): ToolStreamSegment[] => {
+    const segments: ToolStreamSegment[] = [];
+
+    while (buffer) {
+      const open = buffer.indexOf(TOOL_CALL_OPEN);
+      if (open === -1) {
+        // Hold back a trailing partial marker (e.g. "<tool_")
+        let keep = 0;
+        if (!final) {
+          for (let i = Math.min(TOOL_CALL_OPEN.length - 1, buffer.length); i > 0; i--) {
+            if (TOOL_CALL_OPEN.startsWith(buffer.slice(-i))) {
+              keep = i;
+              break;
+            }
+          }
+        }
+        const text = buffer.slice(0, buffer.length - keep);
+        if (text) segments.push({ type: "text", text });
+        buffer = buffer.slice(buffer.length - keep);
+        break;
+      }
+
+      if (open > 0) {
+        segments.push({ type: "text", text: buffer.slice(0, open) });
+        buffer = buffer.slice(open);
+        continue;
+      }
+
+      const close = buffer.indexOf(TOOL_CALL_CLOSE);
+      if (close === -1) {
+        if (final) {
+          // Unterminated block: try to parse it, otherwise emit as text
+          const call = parseToolCallBody(buffer.slice(TOOL_CALL_OPEN.length));
+          segments.push(call ? { type: "tool_call", call } : { type: "text", text: buffer });
+          buffer = "";
+        }
+        break;
+      }
+
+      const raw = buffer.slice(0, close + TOOL_CALL_CLOSE.length);
+      const call = parseToolCallBody(buffer.slice(TOOL_CALL_OPEN.length, close));
+      segments.push(call ? { type: "tool_call", call } : { type: "text", text: raw });
+      buffer = buffer.slice(raw.length);
+    }
+
+    return segments;
+  };
+
+  return {
+    push(text: string): ToolStreamSegment[] {
+      buffer += text;
+      return drain(false);
+    },
+    flush(): ToolStreamSegment[] {
+      return drain(true);
+    },
+  };
+}
+
+/**
+ * Extracts tool calls from a complete model output.
+ * Returns the remaining text content (null if empty) and the tool calls.
+ */
+export function extractToolCalls(
+  content: string
+): { content: string | null; toolCalls: OpenAIToolCall[] } {
+  const parser = createToolCallParser();
+  const segments = [...parser.push(content), ...parser.flush()];
+
+  let text = "";
+  const toolCalls: OpenAIToolCall[] = [];
+  for (const segment of segments) {
+    if (segment.type === "text") {
+      text += segment.text;
+    } else {
+      toolCalls.push(segment.call);
+    }
+  }
+
+  if (toolCalls.length === 0) {
+    return { content, toolCalls };
+  }
+  return { content: text.trim() || null, toolCalls };
+}
+
+// ============================================================================
+// Structured Output (response_format)
+// ============================================================================
+
+/**
+ * Returns true if the request asks for JSON output (json_object or json_schema).
+ */
+function isJsonMode(openaiReq: OpenAIRequest): boolean {
+  const type = openaiReq.response_format?.type;
+  return type === "json_object" || type === "json_schema";
+}
+
+/**
+ * Builds the system prompt with JSON formatting instructions.
+ */
+function buildJsonFormatPrompt(openaiReq: OpenAIRequest): string {
+  const lines = [
+    "Respond with a single valid JSON value only.",
+    "Do not wrap it in Markdown code fences and do not write any text before or after it.",
+  ];
+
+  const jsonSchema = openaiReq.response_format?.json_schema;
+  if (openaiReq.response_format?.type === "json_schema" && jsonSchema?.schema) {
+    if (jsonSchema.description) {
+      lines.push(`Purpose: ${jsonSchema.description}`);
+    }
+    lines.push("The JSON must conform to this JSON Schema:", JSON.stringify(jsonSchema.schema));
+  } else {
+    lines.push("The JSON value must be an object.");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Extracts a JSON value from model output. Accepts bare JSON, JSON inside
+ * Markdown code fences, or the outermost {...} / [...] span in surrounding text.
+ * Returns the JSON text and parsed value, or null if none could be parsed.
+ */
+export function extractJson(text: string): { json: string; value: unknown } | null {
+  const candidates: string[] = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+
+  for (const [open, close] of [["{", "}"], ["[", "]"]]) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      candidates.push(text.slice(start, end + 1));
+    }
+  }
+
+  for (const json of candidates) {
+    try {
+      return { json, value: JSON.parse(json) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the JSON Schema type name of a value ("integer" for whole numbers).
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+/**
+ * A JSON Schema (or sub-schema) object.
+ */
+type JsonSchema = Record<string, unknown>;
+
+function isJsonSchema(value: unknown): value is JsonSchema {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Returns the sub-schemas of an allOf/anyOf/oneOf keyword (null if absent).
+ */
+function subSchemas(value: unknown): JsonSchema[] | null {
+  return Array.isArray(value) ? value.filter(isJsonSchema) : null;
+}
+
+// Compiled "pattern" keywords by schema node
+const schemaPatterns = new WeakMap<JsonSchema, RegExp>();
+
+/**
+ * Returns the compiled "pattern" of a schema node (null if it has none or
+ * it is not a valid regex). Each node's pattern is compiled once.
+ */
+function schemaPattern(node: JsonSchema): RegExp | null {
+  if (typeof node.pattern !== "string") return null;
+  let pattern = schemaPatterns.get(node);
+  if (!pattern) {
+    try {
+      pattern = new RegExp(node.pattern);
+    } catch {
+      return null;
+    }
+    schemaPatterns.set(node, pattern);
+  }
+  return pattern;
+}
+
+// Keywords whose values are data, not sub-schemas
+const SCHEMA_DATA_KEYWORDS = new Set(["enum", "const", "default", "examples"]);
+
+/**
+ * Compiles every "pattern" keyword of a schema up front, when the request
+ * is validated. Returns an error message for the first invalid pattern, or null.
+ */
+function compileSchemaPatterns(node: unknown, path: string = "$"): string | null {
+  if (Array.isArray(node)) {
+    for (const [i, item] of node.entries()) {
+      const error = compileSchemaPatterns(item, `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  }
+  if (!isJsonSchema(node)) {
+    return null;
+  }
+  if (typeof node.pattern === "string" && !schemaPattern(node)) {
+    return `invalid pattern ${JSON.stringify(node.pattern)} at ${path}`;
+  }
+  for (const [key, child] of Object.entries(node)) {
+    if (SCHEMA_DATA_KEYWORDS.has(key)) continue;
+    const error = compileSchemaPatterns(child, `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Validates a value against a JSON Schema subset: type, enum, const, properties,
+ * required, additionalProperties, items, min/max (Length|Items|imum), pattern,
+ * anyOf/oneOf/allOf and local $ref (#/$defs/..., #/definitions/...).
+ * Invalid patterns are ignored (requests with one are rejected by
+ * checkGenerationParams).
+ * Returns a list of error messages (empty when valid).
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = "$",
+  root: JsonSchema = schema
+): string[] {
+  const s = schema;
+  const errors: string[] = [];
+
+  if (typeof s.$ref === "string" && s.$ref.startsWith("#/")) {
+    const target = s.$ref.slice(2).split("/").reduce<unknown>((node, key) => isJsonSchema(node) ? node[key] : undefined, root);
+    return isJsonSchema(target) ? validateJsonSchema(value, target, path, root) : [`${path}: unresolved $ref ${s.$ref}`];
+  }
+
+  if (s.type !== undefined) {
+    const types = (Array.isArray(s.type) ? s.type : [s.type]).map(String);
+    const actual = jsonTypeOf(value);
+    const matches = types.some((t) => t === actual || (t === "number" && actual === "integer"));
+    if (!matches) {
+      return [`${path}: expected ${types.join(" | ")}, got ${actual}`];
+    }
+  }
+
+  if (Array.isArray(s.enum) && !s.enum.some((e: unknown) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(s.enum)}`);
+  }
+  if (s.const !== undefined && JSON.stringify(s.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(s.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof s.minLength === "number" && value.length < s.minLength) {
+      errors.push(`${path}: shorter than ${s.minLength} characters`);
+    }
+    if (typeof s.maxLength === "number" && value.length > s.maxLength) {
+      errors.push(`${path}: longer than ${s.maxLength} characters`);
+    }
+    const pattern = schemaPattern(s);
+    if (pattern && !pattern.test(value)) {
+      errors.push(`${path}: does not match pattern ${s.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof s.minimum === "number" && value < s.minimum) errors.push(`${path}: less than ${s.minimum}`);
+    if (typeof s.maximum === "number" && value > s.maximum) errors.push(`${path}: greater than ${s.maximum}`);
+    if (typeof s.exclusiveMinimum === "number" && value <= s.exclusiveMinimum) {
+      errors.push(`${path}: must be greater than ${s.exclusiveMinimum}`);
+    }
+    if (typeof s.exclusiveMaximum === "number" && value >= s.exclusiveMaximum) {
+      errors.push(`${path}: must be less than ${s.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === "number" && value.length < s.minItems) {
+      errors.push(`${path}: fewer than ${s.minItems} items`);
+    }
+    if (typeof s.maxItems === "number" && value.length > s.maxItems) {
+      errors.push(`${path}: more than ${s.maxItems} items`);
+    }
+    const items = s.items;
+    if (isJsonSchema(items)) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, items, `${path}[${i}]`, root)));
+    }
+  }
+
+  if (jsonTypeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = isJsonSchema(s.properties) ? s.properties : {};
+    const additional = s.additionalProperties;
+    for (const key of Array.isArray(s.required) ? s.required.map(String) : []) {
+      if (!(key in obj)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const property = properties[key];
+      if (isJsonSchema(property)) {
+        errors.push(...validateJsonSchema(child, property, `${path}.${key}`, root));
+      } else if (additional === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (isJsonSchema(additional)) {
+        errors.push(...validateJsonSchema(child, additional, `${path}.${key}`, root));
+      }
+    }
+  }
+
+  for (const sub of subSchemas(s.allOf) ?? []) {
+    errors.push(...validateJsonSchema(value, sub, path, root));
+  }
+  const anyOf = subSchemas(s.anyOf);
+  if (anyOf && !anyOf.some((sub) => validateJsonSchema(value, sub, path, root).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema (anyOf)`);
+  }
+  const oneOf = subSchemas(s.oneOf);
+  if (oneOf) {
+    const matched = oneOf.filter((sub) => validateJsonSchema(value, sub, path, root).length === 0).length;
+    if (matched !== 1) errors.push(`${path}: must match exactly one schema (oneOf), matched ${matched}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Checks model output against the request's response_format.
+ * Returns the extracted JSON text when valid, otherwise the validation errors.
+ */
+function checkResponseFormat(
+  content: string,
+  openaiReq: OpenAIRequest
+): { json: string } | { errors: string[] } {
+  const extracted = extractJson(content);
+  if (!extracted) {
+    return { errors: ["output is not valid JSON"] };
+  }
+
+  const schema = openaiReq.response_format?.json_schema?.schema;
+  if (openaiReq.response_format?.type === "json_schema" && schema) {
+    const errors = validateJsonSchema(extracted.value, schema);
+    return errors.length ? { errors } : { json: extracted.json };
+  }
+
+  if (jsonTypeOf(extracted.value) !== "object") {
+    return { errors: ["output must be a JSON object"] };
+  }
+  return { json: extracted.json };
+}
+
+/**
+ * Builds the follow-up message asking the model to fix invalid JSON output.
+ */
+function buildJsonRepairPrompt(errors: string[]): string {
+  return [
+    "Your previous reply did not satisfy the required JSON format:",
+    ...errors.slice(0, 10).map((e) => `- ${e}`),
+    "Reply again with only the corrected JSON.",
+  ].join("\n");
+}
+
+// ============================================================================
+// Token Usage Estimation
+// ============================================================================
+
+/**
+ * Approximate tokenizer profile for a model family (no exact tokenizers offline).
+ * - charsPerToken: Latin/ASCII characters per token
+ * - cjkCharsPerToken: CJK characters per token
+ */
+interface TokenizerProfile {
+  charsPerToken: number;
+  cjkCharsPerToken: number;
+}
+
+/**
+ * Tokenizer profiles by model id prefix (provider).
+ */
+const TOKENIZER_PROFILES: Record<string, TokenizerProfile> = {
+  "openai/": { charsPerToken: 4.0, cjkCharsPerToken: 1.0 },
+  "anthropic/": { charsPerToken: 3.5, cjkCharsPerToken: 0.8 },
+  "google/": { charsPerToken: 4.0, cjkCharsPerToken: 1.2 },
+  "meta-llama/": { charsPerToken: 3.8, cjkCharsPerToken: 0.9 },
+  "qwen/": { charsPerToken: 3.8, cjkCharsPerToken: 1.4 },
+  "deepseek/": { charsPerToken: 3.8, cjkCharsPerToken: 1.5 },
+  "z-ai/": { charsPerToken: 3.8, cjkCharsPerToken: 1.6 },
+  "moonshotai/": { charsPerToken: 3.8, cjkCharsPerToken: 1.5 },
+  "minimax/": { charsPerToken: 3.8, cjkCharsPerToken: 1.4 },
+};
+
+const DEFAULT_TOKENIZER_PROFILE: TokenizerProfile = { charsPerToken: 3.8, cjkCharsPerToken: 1.0 };
+
+// Chat formatting overhead (OpenAI: ~3 tokens per message, 3 to prime the reply)
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+const TOKENS_PER_IMAGE = 765;
+
+/**
+ * Returns the tokenizer profile for a model id.
+ */
+function tokenizerProfile(model: string): TokenizerProfile {
+  const prefix = Object.keys(TOKENIZER_PROFILES).find((p) => model.startsWith(p));
+  return prefix ? TOKENIZER_PROFILES[prefix] : DEFAULT_TOKENIZER_PROFILE;
+}
+
+/**
+ * Fractional token weight of a text (additive across pieces of a text).
+ */
+function tokenWeight(text: string, profile: TokenizerProfile): number {
+  const cjk = text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g)?.length || 0;
+  const otherNonAscii = text.match(/[^ -~\t\r\n]/g)?.length || 0;
+  const ascii = text.length - otherNonAscii;
+
+  return ascii / profile.charsPerToken +
+    cjk / profile.cjkCharsPerToken +
+    (otherNonAscii - cjk) / 2;
+}
+
+/**
+ * Estimates the number of tokens in a text for the given model.
+ */
+export function estimateTokens(text: string, model: string): number {
+  if (!text) return 0;
+  return Math.ceil(tokenWeight(text, tokenizerProfile(model)));
+}
+
+/**
+ * Estimates prompt tokens for the messages actually sent upstream
+ * (including injected tool and formatting prompts).
+ */
+export function countMessageTokens(messages: InfiniaxMessage[], model: string): number {
+  let total = TOKENS_PER_REPLY;
+  for (const msg of messages) {
+    total += TOKENS_PER_MESSAGE + estimateTokens(msg.content, model);
+    total += (msg.attachments?.length || 0) * TOKENS_PER_IMAGE;
+  }
+  return total;
+}
+
+/**
+ * Builds an OpenAI usage object from prompt tokens and generated content.
+ * Reasoning counts as completion tokens and is itemized separately.
+ */
+function computeUsage(promptTokens: number, completion: string, model: string, reasoning: string = ""): OpenAIUsage {
+  const reasoningTokens = estimateTokens(reasoning, model);
+  const completionTokens = estimateTokens(completion, model) + reasoningTokens;
+  const usage: OpenAIUsage = {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+  if (reasoningTokens > 0) {
+    usage.completion_tokens_details = { reasoning_tokens: reasoningTokens };
+  }
+  return usage;
+}
+
+// ============================================================================
+// Generation Parameters
+// ============================================================================
+
+// Upper bound for n (each choice is a separate upstream call)
+const MAX_CHOICES = 16;
+
+// OpenAI parameters infiniax cannot honor and the proxy cannot emulate
+const UNSUPPORTED_PARAMS = [
+  "seed",
+  "presence_penalty",
+  "frequency_penalty",
+  "logit_bias",
+  "logprobs",
+  "top_logprobs",
+] as const;
+
+/**
+ * Why the proxy cut the output: a stop sequence ("stop") or max_tokens ("length").
+ */
+type FinishReason = "stop" | "length";
+
+/**
+ * Output that may be sent to the client.
+ * - finishReason: set when the output was cut (null = not cut)
+ * - stopSequence: the stop sequence that ended the output, if any
+ */
+interface OutputLimit {
+  text: string;
+  finishReason: FinishReason | null;
+  stopSequence: string | null;
+}
+
+/**
+ * Returns the stop sequences of a request (stop may be a string or an array).
+ */
+function stopSequences(openaiReq: OpenAIRequest): string[] {
+  const stop = openaiReq.stop;
+  if (!stop) return [];
+  return (Array.isArray(stop) ? stop : [stop]).filter((s) => typeof s === "string" && s.length > 0);
+}
+
+/**
+ * Returns the output token budget (max_completion_tokens takes precedence), or null.
+ */
+function maxOutputTokens(openaiReq: OpenAIRequest): number | null {
+  return openaiReq.max_completion_tokens ?? openaiReq.max_tokens ?? null;
+}
+
+/**
+ * Returns the names of parameters set in the request that are not honored.
+ * Defaults (0, false, empty objects) are not reported.
+ */
+function unsupportedParams(openaiReq: OpenAIRequest): string[] {
+  return UNSUPPORTED_PARAMS.filter((name) => {
+    const value = openaiReq[name];
+    if (value === undefined || value === null || value === 0 || value === false) return false;
+    return typeof value !== "object" || Object.keys(value).length > 0;
+  });
+}
+
+/**
+ * Validates n, stop, max_tokens and the response_format schema patterns.
+ * Returns null when valid, otherwise a 400 response.
+ */
+function checkGenerationParams(openaiReq: OpenAIRequest): Response | null {
+  const n = openaiReq.n;
+  if (n !== undefined && n !== null && (!Number.isInteger(n) || n < 1 || n > MAX_CHOICES)) {
+    return errorResponse(`n must be an integer between 1 and ${MAX_CHOICES}`, 400, "invalid_value");
+  }
+
+  const stop = openaiReq.stop;
+  if (stop !== undefined && stop !== null) {
+    const list = Array.isArray(stop) ? stop : [stop];
+    if (list.length > 4 || list.some((s) => typeof s !== "string")) {
+      return errorResponse("stop must be a string or an array of up to 4 strings", 400, "invalid_value");
+    }
+  }
+
+  for (const name of ["max_tokens", "max_completion_tokens"] as const) {
+    const value = openaiReq[name];
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 1)) {
+      return errorResponse(`${name} must be a positive integer`, 400, "invalid_value");
+    }
+  }
+
+  // Compile schema patterns now: an invalid regex is the client's error, not a failed answer
+  const schema = openaiReq.response_format?.type === "json_schema" ? openaiReq.response_format.json_schema?.schema : undefined;
+  const invalidPattern = schema ? compileSchemaPatterns(schema) : null;
+  if (invalidPattern) {
+    return errorResponse(`Invalid response_format schema: ${invalidPattern}`, 400, "invalid_value");
+  }
+  return null;
+}
+
+/**
+ * Creates an incremental output limiter that enforces stop sequences and the
+ * max_tokens budget on streamed text. Text that could be the start of a stop
+ * sequence is held back until the next chunk decides it, so sequences split
+ * across chunks are still caught. Once a result has a finishReason, the
+ * output is complete and further input must be ignored.
+ */
+function createOutputLimiter(stops: string[], maxTokens: number | null, model: string): {
+  push(text: string): OutputLimit;
+  flush(): OutputLimit;
+} {
+  const profile = tokenizerProfile(model);
+  let held = "";
+  let used = 0;
+
+  // Applies the token budget to text about to be emitted
+  const spend = (text: string, stopSequence: string | null): OutputLimit => {
+    const weight = tokenWeight(text, profile);
+    if (maxTokens === null || used + weight <= maxTokens) {
+      used += weight;
+      return { text, finishReason: stopSequence !== null ? "stop" : null, stopSequence };
+    }
+
+    // Longest prefix that fits the remaining budget
+    let lo = 0;
+    let hi = text.length;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (used + tokenWeight(text.slice(0, mid), profile) <= maxTokens) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    // Do not split a surrogate pair
+    if (lo > 0 && /[\ud800-\udbff]/.test(text[lo - 1])) lo--;
+    used = maxTokens;
+    return { text: text.slice(0, lo), finishReason: "length", stopSequence: null };
+  };
+
+  return {
+    push(text) {
+      held += text;
+
+      // Earliest complete stop sequence ends the output
+      let cut = -1;
+      let matched: string | null = null;
+      for (const stop of stops) {
+        const index = held.indexOf(stop);
+        if (index !== -1 && (cut === -1 || index < cut)) {
+          cut = index;
+          matched = stop;
+        }
+      }
+      if (matched !== null) {
+        const out = spend(held.slice(0, cut), matched);
+        held = "";
+        return out;
+      }
+
+      // Hold back the longest suffix that is a prefix of some stop sequence
+      let keep = 0;
+      for (const stop of stops) {
+        for (let k = Math.min(stop.length - 1, held.length); k > keep; k--) {
+          if (held.endsWith(stop.slice(0, k))) {
+            keep = k;
+            break;
+          }
+        }
+      }
+      const out = spend(held.slice(0, held.length - keep), null);
+      held = out.finishReason ? "" : held.slice(held.length - keep);
+      return out;
+    },
+    flush() {
+      const out = spend(held, null);
+      held = "";
+      return out;
+    },
+  };
+}
+
+/**
+ * Creates the output limiter for a request's stop and max_tokens parameters.
+ */
+function outputLimiterFor(openaiReq: OpenAIRequest) {
+  return createOutputLimiter(stopSequences(openaiReq), maxOutputTokens(openaiReq), openaiReq.model);
+}
+
+/**
+ * Applies stop sequences and max_tokens to a complete answer.
+ */
+function applyOutputLimits(content: string, openaiReq: OpenAIRequest): OutputLimit {
+  const limiter = outputLimiterFor(openaiReq);
+  const head = limiter.push(content);
+  if (head.finishReason) {
+    return head;
+  }
+  const tail = limiter.flush();
+  return { ...tail, text: head.text + tail.text };
+}
+
+/**
+ * Runs n attempts in parallel (n > 1 fans out to independent upstream calls);
+ * run receives the attempt index. If any attempt fails, the successful ones
+ * are discarded and the first error is returned.
+ */
+async function fanOut<T extends object>(
+  n: number,
+  run: (index: number) => Promise<T | { error: Response }>,
+  discard?: (value: T) => void
+): Promise<T[] | { error: Response }> {
+  const results = await Promise.all(Array.from({ length: n }, (_, index) => run(index)));
+  const failed = results.find((r): r is { error: Response } => "error" in r);
+  if (failed) {
+    for (const result of results) {
+      if (!("error" in result)) discard?.(result);
+    }
+    return failed;
+  }
+  return results as T[];
+}
+
+// ============================================================================
+// Reasoning & Citations
+// ============================================================================
+
+const THINK_OPEN = "<think>";
+const THINK_CLOSE = "</think>";
+
+/**
+ * A piece of streamed model text: answer text or reasoning.
+ */
+type ThinkSegment = { type: "text" | "reasoning"; text: string };
+
+/**
+ * Creates an incremental parser that splits an inline <think>...</think>
+ * block out of the answer text. It only applies to models whose catalog
+ * entry has the reasoning capability, and only to a block at the very start
+ * of the output: a tag mentioned later in an answer is ordinary text. A
+ * partial tag is held back until the next chunk.
+ */
+function createThinkParser(model: string): {
+  push(text: string): ThinkSegment[];
+  flush(): ThinkSegment[];
+} {
+  let buffer = "";
+  let state: "start" | "think" | "text" = getModel(model)?.capabilities.reasoning ? "start" : "text";
+
+  const drain = (final: boolean): ThinkSegment[] => {
+    const segments: ThinkSegment[] = [];
+    if (state === "start") {
+      const head = buffer.trimStart();
+      if (head.startsWith(THINK_OPEN)) {
+        buffer = head.slice(THINK_OPEN.length);
+        state = "think";
+      } else if (!final && THINK_OPEN.startsWith(head)) {
+        // Not enough text yet to tell
+        return segments;
+      } else {
+        state = "text";
+      }
+    }
+
+    if (state === "think") {
+      const index = buffer.indexOf(THINK_CLOSE);
+      if (index === -1) {
+        // Hold back a possible partial closing tag
+        let keep = 0;
+        if (!final) {
+          for (let k = Math.min(THINK_CLOSE.length - 1, buffer.length); k > 0; k--) {
+            if (buffer.endsWith(THINK_CLOSE.slice(0, k))) {
+              keep = k;
+              break;
+            }
+          }
+        }
+        const text = buffer.slice(0, buffer.length - keep);
+        if (text) segments.push({ type: "reasoning", text });
+        buffer = buffer.slice(buffer.length - keep);
+        return segments;
+      }
+      if (index > 0) segments.push({ type: "reasoning", text: buffer.slice(0, index) });
+      buffer = buffer.slice(index + THINK_CLOSE.length);
+      state = "text";
+    }
+
+    if (buffer) segments.push({ type: "text", text: buffer });
+    buffer = "";
+    return segments;
+  };
+
+  return {
+    push(text) {
+      buffer += text;
+      return drain(false);
+    },
+    flush() {
+      return drain(true);
+    },
+  };
+}
+
+/**
+ * Normalizes upstream search results into URL citations. Accepts URL
+ * strings or objects with url/link/href and title/name, and drops duplicates.
+ */
+function parseSources(value: unknown): UrlCitation[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const sources: UrlCitation[] = [];
+  for (const item of value) {
+    const record = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const url = typeof item === "string" ? item : record.url ?? record.link ?? record.href;
+    if (typeof url !== "string" || !/^https?:\/\//.test(url)) continue;
+    const title = record.title ?? record.name;
+    sources.push(typeof title === "string" && title ? { url, title } : { url });
+  }
+  return sources;
+}
+
+/**
+ * Adds sources to a list, skipping URLs already present.
+ */
+function mergeSources(into: UrlCitation[], sources: UrlCitation[]): void {
+  for (const source of sources) {
+    if (!into.some((s) => s.url === source.url)) into.push(source);
+  }
+}
+
+/**
+ * Builds OpenAI url_citation annotations. When the answer cites a source as
+ * [n], the annotation points at that marker; otherwise it spans no text.
+ */
+function buildAnnotations(content: string, sources: UrlCitation[]): OpenAIAnnotation[] {
+  return sources.map((source, i) => {
+    const marker = `[${i + 1}]`;
+    const index = content.indexOf(marker);
+    return {
+      type: "url_citation",
+      url_citation: {
+        url: source.url,
+        title: source.title ?? source.url,
+        start_index: index === -1 ? 0 : index,
+        end_index: index === -1 ? 0 : index + marker.length,
+      },
+    };
+  });
+}
+
+// ============================================================================
+// Response Transformation
+// ============================================================================
+
+/**
+ * Generates a unique ID for OpenAI response format, reusing the request id when given.
+ */
+function generateId(requestId?: string): string {
+  return "chatcmpl-" + (requestId ?? crypto.randomUUID().replace(/-/g, "").slice(0, 24));
+}
+
+/**
+ * Transforms an infiniax stream chunk to OpenAI SSE delta format.
+ * Input: Raw text content from infiniax stream (and emulated tool calls, if any)
+ * Output: SSE formatted string "data: {json}\n\n"
+ * 
+ * Requirements: 4.1, 4.2
+ */
+export function transformStreamChunk(
+  content: string,
+  model: string,
+  responseId: string,
+  created: number,
+  isFirst: boolean = false,
+  toolCalls?: Array<OpenAIToolCall & { index: number }>,
+  choiceIndex: number = 0
+): string {
+  const delta: OpenAIStreamChunk["choices"][0]["delta"] = isFirst ? { role: "assistant" } : {};
+  if (toolCalls?.length) {
+    if (content) delta.content = content;
+    delta.tool_calls = toolCalls;
+  } else {
+    delta.content = content;
+  }
+  return createDeltaChunk(delta, model, responseId, created, choiceIndex);
+}
+
+/**
+ * Creates a delta chunk for reasoning output (reasoning_content).
+ */
+export function transformReasoningChunk(
+  reasoning: string,
+  model: string,
+  responseId: string,
+  created: number,
+  isFirst: boolean = false,
+  choiceIndex: number = 0
+): string {
+  const delta: OpenAIStreamChunk["choices"][0]["delta"] = isFirst ? { role: "assistant" } : {};
+  delta.reasoning_content = reasoning;
+  return createDeltaChunk(delta, model, responseId, created, choiceIndex);
+}
+
+/**
+ * Formats one delta of one choice as an SSE chunk.
+ */
+function createDeltaChunk(
+  delta: OpenAIStreamChunk["choices"][0]["delta"],
+  model: string,
+  responseId: string,
+  created: number,
+  choiceIndex: number
+): string {
+  const chunk: OpenAIStreamChunk = {
+    id: responseId,
+    object: "chat.completion.chunk",
+    created: created,
+    model: model,
+    choices: [
+      {
+        index: choiceIndex,
+        delta: delta,
+        finish_reason: null,
+      },
+    ],
+  };
+  return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+/**
+ * Creates the SSE chunk carrying the finish_reason of one choice.
+ */
+export function createFinishChunk(
+  model: string,
+  responseId: string,
+  created: number,
+  finishReason: string = "stop",
+  choiceIndex: number = 0
+): string {
+  const chunk: OpenAIStreamChunk = {
+    id: responseId,
+    object: "chat.completion.chunk",
+    created: created,
+    model: model,
+    choices: [
+      {
+        index: choiceIndex,
+        delta: {},
+        finish_reason: finishReason,
+      },
+    ],
+  };
+  return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+/**
+ * Creates the end of the stream: when usage is given (stream_options.include_usage),
+ * a usage chunk with empty choices, then [DONE].
+ */
+export function createStreamTail(
+  model: string,
+  responseId: string,
+  created: number,
+  usage?: OpenAIUsage
+): string {
+  let sse = "";
+  if (usage) {
+    const usageChunk: OpenAIStreamChunk = {
+      id: responseId,
+      object: "chat.completion.chunk",
+      created: created,
+      model: model,
+      choices: [],
+      usage,
+    };
+    sse += `data: ${JSON.stringify(usageChunk)}\n\n`;
+  }
+  return sse + `data: [DONE]\n\n`;
+}
+
+/**
+ * Creates the final SSE chunk indicating stream completion.
+ * When usage is given (stream_options.include_usage), a usage chunk with
+ * empty choices is emitted before [DONE].
+ */
+export function createStreamEndChunk(
+  model: string,
+  responseId: string,
+  created: number,
+  finishReason: string = "stop",
+  usage?: OpenAIUsage
+): string {
+  return createFinishChunk(model, responseId, created, finishReason) +
+    createStreamTail(model, responseId, created, usage);
+}
+
+/**
+ * Creates an SSE error event followed by the [DONE] marker, used when a stream
+ * cannot be completed normally: data: {"error":{...}}\n\ndata: [DONE]\n\n
+ */
+export function createStreamErrorChunk(
+  message: string,
+  code: string | null = null,
+  type: string = "server_error"
+): string {
+  const error = { error: { message, type, param: null, code } };
+  return `data: ${JSON.stringify(error)}\n\ndata: [DONE]\n\n`;
+}
+
+/**
+ * Transforms a complete infiniax response to OpenAI chat completion format.
+ * Used for non-streaming responses. With parseTools, emulated <tool_call>
+ * blocks are returned as tool_calls with finish_reason "tool_calls".
+ * Output cut at max_tokens reports finish_reason "length".
+ * usage is estimated from promptTokens and the generated content.
+ * 
+ * Requirements: 5.1, 5.2
+ */
+export function transformResponse(
+  content: string,
+  model: string,
+  parseTools: boolean = false,
+  promptTokens: number = 0,
+  finishReason: FinishReason | null = null,
+  reasoning: string = "",
+  sources: UrlCitation[] = []
+): OpenAIResponse {
+  const { content: text, toolCalls } = parseTools
+    ? extractToolCalls(content)
+    : { content, toolCalls: [] };
+
+  const message: OpenAIResponse["choices"][0]["message"] = { role: "assistant", content: text };
+  if (reasoning) {
+    message.reasoning_content = reasoning;
+  }
+  if (toolCalls.length) {
+    message.tool_calls = toolCalls;
+  }
+  if (sources.length && text) {
+    message.annotations = buildAnnotations(text, sources);
+  }
+
+  return {
+    id: generateId(),
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: model,
+    choices: [
+      {
+        index: 0,
+        message,
+        finish_reason: finishReason === "length" ? "length" : toolCalls.length ? "tool_calls" : "stop",
+      },
+    ],
+    usage: computeUsage(promptTokens, content, model, reasoning),
+  };
+}
+
+// ============================================================================
+// Error Response Helpers
+// ============================================================================
+
+/**
+ * Maps an HTTP status to the OpenAI error "type" field.
+ */
+function errorTypeForStatus(status: number): string {
+  if (status === 401) return "authentication_error";
+  if (status === 403) return "permission_error";
+  if (status === 429) return "rate_limit_error";
+  if (status >= 500) return "server_error";
+  return "invalid_request_error";
+}
+
+/**
+ * Creates a standardized error response in OpenAI error format:
+ * {"error":{"message":...,"type":...,"param":null,"code":...}}
+ * Requirements: 3.4, 7.1, 7.2, 7.3
+ */
+function errorResponse(
+  message: string,
+  status: number,
+  code: string | null = null,
+  extraHeaders: Record<string, string> = {}
+): Response {
+  return new Response(
+    JSON.stringify({
+      error: { message, type: errorTypeForStatus(status), param: null, code },
+    }),
+    {
+      status,
+      headers: { "Content-Type": "application/json", ...extraHeaders },
+    }
+  );
+}
+
+/**
+ * Maps upstream HTTP status codes to appropriate proxy responses.
+ * Requirements: 7.1, 7.3
+ */
+function handleUpstreamError(status: number): Response {
+  // Authentication failures (401/403 from upstream)
+  if (status === 401 || status === 403) {
+    return errorResponse("Authentication failed", 401);
+  }
+  // All other upstream errors are treated as 502 Bad Gateway
+  return errorResponse("Upstream error", 502);
+}
+
+// ============================================================================
+// Upstream Client
+// ============================================================================
+
+/**
+ * Result of an upstream call: either the successful upstream response,
+ * or a ready-to-return proxy error response.
+ */
+type UpstreamResult = { response: Response } | { error: Response };
+
+/**
+ * Where upstream calls go: the chat stream and model catalog endpoints and
+ * the fetch used to reach them. Defaults to infiniax.ai (or the
+ * INFINIAX_UPSTREAM_URL / INFINIAX_MODELS_URL overrides); tests point it at
+ * a local mock server with setUpstream.
+ */
+export interface Upstream {
+  chatUrl: string;
+  modelsUrl: string;
+  fetch: typeof fetch;
+}
+
+let upstream: Upstream = {
+  chatUrl: UPSTREAM_URL,
+  modelsUrl: MODELS_URL,
+  // Resolved per call so a replaced globalThis.fetch is honored
+  fetch: (input, init) => fetch(input, init),
+};
+
+/**
+ * Replaces parts of the upstream transport. Returns the previous transport,
+ * so callers can restore it with setUpstream(previous).
+ */
+export function setUpstream(overrides: Partial<Upstream>): Upstream {
+  const previous = upstream;
+  upstream = { ...upstream, ...overrides };
+  return previous;
+}
+
+// Transient upstream statuses worth retrying
+const RETRYABLE_STATUSES = new Set([408, 500, 502, 503, 504]);
+const UPSTREAM_RETRY_MAX_MS = 5000;
+
+/**
+ * Exponential backoff with full jitter: random delay in [0, base * 2^attempt], capped.
+ */
+function retryDelay(attempt: number): number {
+  return Math.random() * Math.min(UPSTREAM_RETRY_MAX_MS, config.upstream_retry_base_ms * 2 ** attempt);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends an infiniax request upstream, failing over across the cookie pool.
+ * A cookie that gets 401/403/429 is benched and the request is retried
+ * on the next healthy cookie before any error reaches the client.
+ * Connect failures and retryable statuses (408/5xx) are retried up to
+ * UPSTREAM_RETRIES times with exponential backoff and jitter.
+ */
+async function callUpstream(
+  infiniaxReq: InfiniaxRequest,
+  policy: ApiKeyPolicy
+): Promise<UpstreamResult> {
+  if (cookiePool.length === 0) {
+    return { error: errorResponse("No upstream session cookie configured", 503, "no_upstream_session") };
+  }
+
+  const tried = new Set<number>();
+  let lastStatus = 0;
+  let retries = 0;
+
+  while (true) {
+    const entry = selectCookie(tried);
+    if (!entry) {
+      break;
+    }
+
+    // Respect the global cap on concurrent upstream calls
+    const slot = await acquireUpstreamSlot();
+    if ("error" in slot) {
+      return { error: slot.error };
+    }
+
+    let upstreamResponse: Response;
+    try {
+      upstreamResponse = await upstream.fetch(upstream.chatUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Cookie": entry.cookie,
+        },
+        body: JSON.stringify(infiniaxReq),
+      });
+    } catch (error) {
+      // Network errors, DNS failures, etc. → retry, then 502 (Requirements: 7.1)
+      log("error", "Upstream request failed", { caller: callerId(policy), error });
+      slot.release();
+      if (retries < config.upstream_retries) {
+        await sleep(retryDelay(retries++));
+        continue;
+      }
+      return { error: errorResponse("Upstream error", 502) };
+    }
+
+    const status = upstreamResponse.status;
+    if (status === 401 || status === 403 || status === 429) {
+      // Discard the body so the connection can be reused
+      await upstreamResponse.body?.cancel();
+      slot.release();
+      benchCookie(entry, status, upstreamResponse.headers.get("Retry-After"));
+      tried.add(entry.id);
+      lastStatus = status;
+      continue;
+    }
+
+    // Handle upstream errors (Requirements: 7.1, 7.3)
+    if (!upstreamResponse.ok) {
+      await upstreamResponse.body?.cancel();
+      slot.release();
+      if (RETRYABLE_STATUSES.has(status) && retries < config.upstream_retries) {
+        log("warn", "Upstream failed, retrying", { caller: callerId(policy), upstream_status: status });
+        await sleep(retryDelay(retries++));
+        continue;
+      }
+      return { error: handleUpstreamError(status) };
+    }
+
+    markCookieSuccess(entry, status);
+    return { response: releaseOnBodyEnd(upstreamResponse, slot.release) };
+  }
+
+  // Every cookie has been tried or is benched
+  if (lastStatus === 0 || lastStatus === 429) {
+    const retryAfter = Math.max(1, Math.ceil((nextCookieAvailableAt() - Date.now()) / 1000));
+    return {
+      error: errorResponse(
+        "All upstream sessions are rate limited or unavailable, please retry later",
+        503,
+        "upstream_unavailable",
+        { "Retry-After": String(retryAfter) }
+      ),
+    };
+  }
+  return { error: handleUpstreamError(lastStatus) };
+}
+
+// ============================================================================
+// Usage Metering & Quotas
+// ============================================================================
+
+/**
+ * One recorded API call.
+ */
+interface UsageRecord {
+  id: string;
+  timestamp: number; // epoch ms
+  caller: string; // display name (callerId)
+  caller_id: string; // per-key id (ownerId), keys the quota counters
+  label?: string; // key label; quota rules naming it count on it, pooled across its keys
+  route: string;
+  model: string;
+  web_search: boolean;
+  status: number;
+  outcome: "success" | "error";
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  latency_ms: number;
+  // Upstream calls made (n > 1 fans out), counted against max_requests; missing = 1
+  upstream_calls?: number;
+}
+
+type QuotaPeriod = "daily" | "monthly";
+
+/**
+ * Aggregated counters for a caller/model/period.
+ */
+interface UsageTotals {
+  requests: number;
+  tokens: number;
+}
+
+/**
+ * Pluggable usage store.
+ * - record: persists a call and updates the caller/model counters
+ * - list: returns records with since <= timestamp < until
+ * - totals: returns counters for a caller (caller_id) in the current period
+ *   (model "*" = all models combined)
+ */
+interface UsageStore {
+  kind: string;
+  record(rec: UsageRecord): Promise<void>;
+  list(since: number, until: number): Promise<UsageRecord[]>;
+  totals(caller: string, model: string, period: QuotaPeriod): Promise<UsageTotals>;
+}
+
+/**
+ * Returns the period identifier for a timestamp: "2025-01-31" (daily) or "2025-01" (monthly), UTC.
+ */
+function periodId(period: QuotaPeriod, timestamp: number = Date.now()): string {
+  const iso = new Date(timestamp).toISOString();
+  return period === "daily" ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+/**
+ * Returns the epoch ms at which the current period ends (next UTC midnight / month).
+ */
+function periodEnd(period: QuotaPeriod, timestamp: number = Date.now()): number {
+  const d = new Date(timestamp);
+  return period === "daily"
+    ? Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1)
+    : Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+}
+
+/**
+ * Returns the counter keys a record contributes to (per model and all models,
+ * per period), for its key and, when the key has one, its label.
+ */
+function counterKeys(rec: UsageRecord): string[][] {
+  const keys: string[][] = [];
+  for (const caller of rec.label ? [rec.caller_id, rec.label] : [rec.caller_id]) {
+    for (const period of ["daily", "monthly"] as QuotaPeriod[]) {
+      const id = periodId(period, rec.timestamp);
+      keys.push([caller, rec.model, id], [caller, "*", id]);
+    }
+  }
+  return keys;
+}
+
+// Maximum records kept by the in-memory store (counters are unaffected)
+const MEMORY_USAGE_LIMIT = 50_000;
+
+/**
+ * In-memory usage store (local development and tests).
+ */
+function createMemoryUsageStore(): UsageStore {
+  const records: UsageRecord[] = [];
+  const counters = new Map<string, UsageTotals>();
+
+  return {
+    kind: "memory",
+    record(rec) {
+      records.push(rec);
+      if (records.length > MEMORY_USAGE_LIMIT) {
+        records.splice(0, records.length - MEMORY_USAGE_LIMIT);
+      }
+      for (const key of counterKeys(rec)) {
+        const id = key.join("|");
+        const totals = counters.get(id) || { requests: 0, tokens: 0 };
+        totals.requests += rec.upstream_calls ?? 1;
+        totals.tokens += rec.total_tokens;
+        counters.set(id, totals);
+      }
+      return Promise.resolve();
+    },
+    list(since, until) {
+      return Promise.resolve(records.filter((r) => r.timestamp >= since && r.timestamp < until));
+    },
+    totals(caller, model, period) {
+      const id = [caller, model, periodId(period)].join("|");
+      return Promise.resolve({ ...(counters.get(id) || { requests: 0, tokens: 0 }) });
+    },
+  };
+}
+
+/**
+ * Local file usage store: appends records as JSONL and keeps an in-memory index,
+ * rebuilt from the file at startup.
+ */
+async function createFileUsageStore(path: string): Promise<UsageStore> {
+  const memory = createMemoryUsageStore();
+
+  try {
+    const text = await Deno.readTextFile(path);
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        await memory.record(JSON.parse(line));
+      } catch {
+        // Skip corrupt lines
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+
+  return {
+    ...memory,
+    kind: "file",
+    async record(rec) {
+      await memory.record(rec);
+      await Deno.writeTextFile(path, JSON.stringify(rec) + "\n", { append: true });
+    },
+  };
+}
+
+// KV usage records expire after 90 days
+const KV_RECORD_TTL_MS = 90 * 24 * 3600 * 1000;
+
+/**
+ * Deno KV usage store (Deno Deploy). Counters are updated atomically with sum();
+ * they cannot carry an expiry, but there are only a few per caller and period.
+ */
+function createKvUsageStore(kv: Deno.Kv): UsageStore {
+  return {
+    kind: "kv",
+    async record(rec) {
+      const op = kv.atomic().set(["usage", "records", rec.timestamp, rec.id], rec, {
+        expireIn: KV_RECORD_TTL_MS,
+      });
+      for (const key of counterKeys(rec)) {
+        op.sum(["usage", "requests", ...key], BigInt(rec.upstream_calls ?? 1));
+        op.sum(["usage", "tokens", ...key], BigInt(rec.total_tokens));
+      }
+      await op.commit();
+    },
+    async list(since, until) {
+      const records: UsageRecord[] = [];
+      const iter = kv.list<UsageRecord>({
+        start: ["usage", "records", since],
+        end: ["usage", "records", until],
+      });
+      for await (const entry of iter) {
+        records.push(entry.value);
+      }
+      return records;
+    },
+    async totals(caller, model, period) {
+      const id = periodId(period);
+      const [requests, tokens] = await kv.getMany<Deno.KvU64[]>([
+        ["usage", "requests", caller, model, id],
+        ["usage", "tokens", caller, model, id],
+      ]);
+      return {
+        requests: Number(requests.value?.value || 0n),
+        tokens: Number(tokens.value?.value || 0n),
+      };
+    },
+  };
+}
+
+let usageStorePromise: Promise<UsageStore> | null = null;
+
+/**
+ * Returns the configured usage store (created on first use).
+ * USAGE_STORE: "kv" | "file" | "memory"; defaults to "kv" on Deno Deploy, "memory" elsewhere.
+ * Falls back to memory if the chosen store cannot be opened.
+ */
+function getUsageStore(): Promise<UsageStore> {
+  if (!usageStorePromise) {
+    usageStorePromise = (async () => {
+      const kind = USAGE_STORE || (Deno.env.get("DENO_DEPLOYMENT_ID") ? "kv" : "memory");
+      try {
+        if (kind === "kv") {
+          return createKvUsageStore(await Deno.openKv());
+        }
+        if (kind === "file") {
+          return await createFileUsageStore(USAGE_FILE);
+        }
+      } catch (error) {
+        log("error", "Cannot open usage store, falling back to memory", { store: kind, error });
+      }
+      return createMemoryUsageStore();
+    })();
+  }
+  return usageStorePromise;
+}
+
+/**
+ * A usage quota rule from USAGE_QUOTAS.
+ * - key: a key label (counted across all keys with that label), an API key,
+ *   or "*" (each key counted on its own)
+ * - model: model id, or "*" / omitted (all models combined)
+ */
+interface QuotaRule {
+  key: string;
+  model: string;
+  period: QuotaPeriod;
+  maxRequests?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Builds the quota rules from the usage_quotas setting.
+ */
+function buildQuotaRules(entries: QuotaEntry[]): QuotaRule[] {
+  return entries.map((e) => ({
+    key: e.key || "*",
+    model: e.model || "*",
+    period: e.period === "monthly" ? "monthly" : "daily",
+    maxRequests: e.max_requests,
+    maxTokens: e.max_tokens,
+  }));
+}
+
+// Rebuilt by applyConfig
+let quotaRules: QuotaRule[] = [];
+
+/**
+ * Enforces the quota rules that apply to a caller and model, for a request
+ * making the given number of upstream calls.
+ * The check and the later record are not atomic: concurrent requests can
+ * each pass the check and overshoot a limit by the calls they make together.
+ * Returns null when within quota, otherwise an OpenAI-style 429 error response.
+ */
+async function checkQuotas(policy: ApiKeyPolicy, model: string, calls = 1): Promise<Response | null> {
+  const rules = quotaRules.filter((r) =>
+    (r.key === "*" || r.key === policy.label || r.key === policy.key) &&
+    (r.model === "*" || r.model === model)
+  );
+  if (rules.length === 0) {
+    return null;
+  }
+
+  const store = await getUsageStore();
+  const callerKey = await ownerId(policy);
+  for (const rule of rules) {
+    // Label rules are pooled across the label's keys
+    const counter = policy.label && rule.key === policy.label ? policy.label : callerKey;
+    const totals = await store.totals(counter, rule.model, rule.period);
+    const exceeded =
+      (rule.maxRequests !== undefined && totals.requests + calls > rule.maxRequests) ||
+      (rule.maxTokens !== undefined && totals.tokens >= rule.maxTokens);
+    if (exceeded) {
+      const retryAfter = Math.ceil((periodEnd(rule.period) - Date.now()) / 1000);
+      const scope = rule.model === "*" ? "all models" : `model '${rule.model}'`;
+      return errorResponse(
+        `You exceeded your ${rule.period} quota for ${scope}. Usage resets at ${new Date(periodEnd(rule.period)).toISOString()}.`,
+        429,
+        "insufficient_quota",
+        { "Retry-After": String(retryAfter) }
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * Records the outcome of one API call. finish() may be called once;
+ * further calls are ignored.
+ */
+interface UsageMeter {
+  // Model recorded with the call; updated when a fallback model answers
+  model: string;
+  // Request id (X-Request-Id), also used for chat completion ids
+  readonly requestId: string;
+  // Upstream calls the request makes (n > 1 fans out)
+  upstreamCalls: number;
+  // Marks when upstream responded (headers for streams, the full answer otherwise)
+  upstreamResponded(): void;
+  // Marks the first token sent to a streaming client
+  firstToken(): void;
+  finish(status: number, usage?: OpenAIUsage, errorClass?: string): void;
+}
+
+/**
+ * Starts metering an API call. The record is written in the background
+ * so storage latency never delays the response. Timings and the outcome
+ * also go to the request log and metrics.
+ */
+function startUsageMeter(
+  req: Request,
+  policy: ApiKeyPolicy,
+  route: string,
+  model: string,
+  webSearch: boolean
+): UsageMeter {
+  const ctx = requestContext(req);
+  const startedAt = Date.now();
+  let finished = false;
+  let upstreamAt: number | null = null;
+  ctx.metered = true;
+  ctx.caller = callerId(policy);
+
+  const meter: UsageMeter = {
+    model,
+    requestId: ctx.id,
+    upstreamCalls: 1,
+    upstreamResponded() {
+      upstreamAt ??= Date.now();
+      ctx.upstreamMs ??= upstreamAt - ctx.startedAt;
+    },
+    firstToken() {
+      ctx.ttftMs ??= Date.now() - ctx.startedAt;
+    },
+    finish(status, usage, errorClass) {
+      if (finished) return;
+      finished = true;
+
+      ctx.meterFinished = true;
+      ctx.model = meter.model;
+      ctx.status = status;
+      ctx.usage = usage;
+      ctx.errorClass ??= errorClass;
+      if (ctx.ttftMs !== undefined) {
+        ctx.streamMs = Date.now() - (upstreamAt ?? startedAt);
+      }
+      if (ctx.deferred) {
+        endRequest(ctx);
+      }
+
+      const rec: Omit<UsageRecord, "caller_id"> = {
+        id: crypto.randomUUID(),
+        timestamp: startedAt,
+        caller: callerId(policy),
+        ...(policy.label ? { label: policy.label } : {}),
+        route,
+        model: meter.model,
+        web_search: webSearch,
+        status,
+        outcome: status >= 200 && status < 300 ? "success" : "error",
+        prompt_tokens: usage?.prompt_tokens || 0,
+        completion_tokens: usage?.completion_tokens || 0,
+        total_tokens: usage?.total_tokens || 0,
+        latency_ms: Date.now() - startedAt,
+        ...(meter.upstreamCalls > 1 ? { upstream_calls: meter.upstreamCalls } : {}),
+      };
+
+      Promise.all([getUsageStore(), ownerId(policy)])
+        .then(([store, callerKey]) => store.record({ ...rec, caller_id: callerKey }))
+        .catch((error) => log("error", "Error recording usage", { error }));
+    },
+  };
+  return meter;
+}
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+/**
+ * A cached completion: the final content (after JSON repair), its reasoning
+ * and sources, and the model that produced it.
+ */
+interface CachedCompletion {
+  model: string;
+  content: string;
+  finishReason?: FinishReason | null;
+  reasoning?: string;
+  sources?: UrlCitation[];
+  createdAt: number;
+}
+
+/**
+ * Response cache backend.
+ */
+interface ResponseCache {
+  kind: "memory" | "kv";
+  get(key: string): Promise<CachedCompletion | null>;
+  set(key: string, entry: CachedCompletion): Promise<void>;
+}
+
+function isFresh(entry: CachedCompletion): boolean {
+  return Date.now() - entry.createdAt < config.cache_ttl_seconds * 1000;
+}
+
+/**
+ * In-memory LRU cache (Map insertion order = recency).
+ */
+function createMemoryResponseCache(maxEntries: number): ResponseCache {
+  const entries = new Map<string, CachedCompletion>();
+  return {
+    kind: "memory",
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return Promise.resolve(null);
+      }
+      entries.delete(key);
+      if (!isFresh(entry)) {
+        return Promise.resolve(null);
+      }
+      entries.set(key, entry);
+      return Promise.resolve(entry);
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      return Promise.resolve();
+    },
+  };
+}
+
+// Deno KV values are limited to 64 KiB
+const KV_MAX_VALUE_BYTES = 60 * 1024;
+
+/**
+ * Deno KV cache (Deno Deploy). Entries expire after CACHE_TTL_SECONDS;
+ * answers too large for a KV value are not cached.
+ */
+function createKvResponseCache(kv: Deno.Kv): ResponseCache {
+  return {
+    kind: "kv",
+    async get(key) {
+      const entry = await kv.get<CachedCompletion>(["cache", key]);
+      // KV expiry is lazy, so check freshness ourselves
+      return entry.value && isFresh(entry.value) ? entry.value : null;
+    },
+    async set(key, entry) {
+      if (new TextEncoder().encode(JSON.stringify(entry)).length > KV_MAX_VALUE_BYTES) {
+        return;
+      }
+      await kv.set(["cache", key], entry, { expireIn: config.cache_ttl_seconds * 1000 });
+    },
+  };
+}
+
+let responseCachePromise: Promise<ResponseCache | null> | null = null;
+
+/**
+ * Returns the response cache, or null when caching is off.
+ * RESPONSE_CACHE: "on" (kv on Deno Deploy, memory elsewhere) | "kv" | "memory"; unset = off.
+ * Falls back to memory if KV cannot be opened.
+ */
+function getResponseCache(): Promise<ResponseCache | null> {
+  if (!responseCachePromise) {
+    responseCachePromise = (async () => {
+      if (!RESPONSE_CACHE || RESPONSE_CACHE === "off") {
+        return null;
+      }
+      const kind = RESPONSE_CACHE === "on"
+        ? (Deno.env.get("DENO_DEPLOYMENT_ID") ? "kv" : "memory")
+        : RESPONSE_CACHE;
+      if (kind === "kv") {
+        try {
+          return createKvResponseCache(await Deno.openKv());
+        } catch (error) {
+          log("error", "Cannot open kv response cache, falling back to memory", { error });
+        }
+      }
+      return createMemoryResponseCache(CACHE_MAX_ENTRIES);
+    })();
+  }
+  return responseCachePromise;
+}
+
+/**
+ * Only deterministic requests are cached: an explicit temperature of 0
+ * (unset means the model's default, which samples), a single choice, no
+ * web search (results change over time), and no Cache-Control:
+ * no-cache/no-store.
+ */
+function isCacheable(req: Request, openaiReq: OpenAIRequest): boolean {
+  if (/no-cache|no-store/i.test(req.headers.get("Cache-Control") ?? "")) {
+    return false;
+  }
+  return !openaiReq.web_search && (openaiReq.n ?? 1) === 1 &&
+    openaiReq.temperature === 0;
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equal requests hash equally.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Cache key: SHA-256 of the caller, the resolved model chain, messages and
+ * every parameter that affects the answer (stream options are excluded, so
+ * streaming and non-streaming requests share entries). Entries are never
+ * shared between API keys, so a hit cannot reveal another caller's prompt.
+ */
+async function responseCacheKey(
+  openaiReq: OpenAIRequest,
+  chain: string[],
+  owner: string,
+): Promise<string> {
+  const normalized = stableStringify({
+    owner,
+    chain,
+    messages: openaiReq.messages,
+    tools: openaiReq.tools,
+    tool_choice: openaiReq.tool_choice,
+    parallel_tool_calls: openaiReq.parallel_tool_calls,
+    response_format: openaiReq.response_format,
+    max_tokens: maxOutputTokens(openaiReq),
+    stop: stopSequences(openaiReq),
+    top_p: openaiReq.top_p,
+  });
+  return await sha256Hex(normalized);
+}
+
+/**
+ * Hex-encoded SHA-256 digest of a string.
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Stores a completion in the background; cache failures never affect the response.
+ */
+function storeCachedCompletion(key: string, choice: GeneratedChoice): void {
+  getResponseCache()
+    .then((cache) => cache?.set(key, { ...choice, createdAt: Date.now() }))
+    .catch((error) => log("error", "Error writing response cache", { error }));
+}
+
+/**
+ * Restores a cached completion as a generated choice.
+ */
+function cachedChoice(cached: CachedCompletion): GeneratedChoice {
+  return {
+    model: cached.model,
+    content: cached.content,
+    finishReason: cached.finishReason ?? null,
+    reasoning: cached.reasoning ?? "",
+    sources: cached.sources ?? [],
+  };
+}
+
+/**
+ * Builds an infiniax-format SSE response from cached content, so a cache hit
+ * can be replayed through the normal streaming pipeline.
+ */
+function replayInfiniaxStream(choice: GeneratedChoice): Response {
+  const split = (text: string) => text.match(/[\s\S]{1,64}/g) ?? [];
+  const events: unknown[] = [
+    ...split(choice.reasoning).map((reasoning) => ({ reasoning })),
+    ...(choice.sources.length ? [{ sources: choice.sources }] : []),
+    ...split(choice.content).map((chunk) => ({ chunk })),
+    { done: true },
+  ];
+  return new Response(events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join(""));
+}
+
+function withCacheStatus(response: Response, status: "HIT" | "MISS" | "BYPASS"): Response {
+  response.headers.set("x-cache", status);
+  return response;
+}
+
+// ============================================================================
+// Chat Completions Handler
+// ============================================================================
+
+/**
+ * Handles POST /v1/chat/completions requests.
+ * - Parses request body
+ * - Transforms to infiniax format
+ * - Sends request to infiniax API with a pooled Cookie
+ * - Handles streaming/non-streaming responses
+ * 
+ * Requirements: 3.1, 3.4, 4.1, 4.3, 5.1, 7.1, 7.2, 7.3
+ */
+async function handleChatCompletions(
+  req: Request,
+  policy: ApiKeyPolicy
+): Promise<Response> {
+  let meter: UsageMeter | undefined;
+  try {
+    // Parse request body (Requirements: 3.4 - Invalid JSON → 400)
+    let openaiReq: OpenAIRequest;
+    try {
+      openaiReq = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON", 400);
+    }
+
+    // Validate required fields
+    if (!openaiReq.model || !openaiReq.messages) {
+      return errorResponse("Missing required fields: model and messages", 400);
+    }
+
+    // Validate n, stop and max_tokens
+    const invalidParams = checkGenerationParams(openaiReq);
+    if (invalidParams) {
+      return invalidParams;
+    }
+
+    // Resolve aliases and routing rules; reject unknown models before going upstream
+    const routing = await resolveModelChain(openaiReq, policy);
+    if ("error" in routing) {
+      return routing.error;
+    }
+    const chain = routing.chain;
+    openaiReq.model = chain[0];
+
+    // Enforce per-key access policy
+    const denied = checkPolicy(policy, openaiReq);
+    if (denied) {
+      return denied;
+    }
+
+    // Continue a server-side thread: prepend its history, fitted to the context window
+    let turn: ThreadTurn | null = null;
+    if (openaiReq.thread_id) {
+      const prepared = await prepareThreadRequest(openaiReq, policy);
+      if ("error" in prepared) {
+        return prepared.error;
+      }
+      turn = prepared;
+    }
+    const onComplete = turn ? (choice: GeneratedChoice) => appendThreadTurn(turn!, choice, openaiReq) : undefined;
+
+    // Validate multimodal content parts
+    const invalidContent = checkContentParts(openaiReq);
+    if (invalidContent) {
+      return invalidContent;
+    }
+
+    // Enforce usage quotas and rate limits, one upstream call per choice
+    const choiceCount = openaiReq.n ?? 1;
+    const overLimit = await chargeUpstreamCalls(req, policy, openaiReq.model, choiceCount);
+    if (overLimit) {
+      return overLimit;
+    }
+
+    meter = startUsageMeter(req, policy, "/v1/chat/completions", openaiReq.model, !!openaiReq.web_search);
+    meter.upstreamCalls = choiceCount;
+    const isStreaming = openaiReq.stream === true;
+
+    // Serve repeated deterministic requests from the response cache
+    const cache = await getResponseCache();
+    const cacheKey = cache && isCacheable(req, openaiReq)
+      ? await responseCacheKey(openaiReq, chain, await ownerId(policy))
+      : null;
+    const cached = cache && cacheKey ? await cache.get(cacheKey) : null;
+    let response: Response;
+
+    if (cached) {
+      const choice = cachedChoice(cached);
+      openaiReq.model = meter.model = cached.model;
+      const promptTokens = countMessageTokens(transformRequest(openaiReq).messages, cached.model);
+      const finishReason = choice.finishReason;
+      if (isStreaming) {
+        response = handleStreamingResponse([replayInfiniaxStream(choice)], openaiReq, promptTokens, meter, {
+          finishReason,
+          onComplete,
+        });
+      } else {
+        await onComplete?.(choice);
+        response = completionResponse([choice], openaiReq, promptTokens, meter);
+      }
+      response = withModelHeader(response, cached.model);
+    } else if (isStreaming) {
+      // Send request to infiniax API (with cookie pool failover, retries and model fallback);
+      // n > 1 opens one upstream stream per choice
+      const upstreams = await fanOut(
+        choiceCount,
+        () => withModelFallback(chain, policy, (model) => callUpstream(transformRequest({ ...openaiReq, model }), policy)),
+        (upstream) => upstream.value.response.body?.cancel()
+      );
+      if ("error" in upstreams) {
+        meter.finish(upstreams.error.status);
+        return upstreams.error;
+      }
+      meter.upstreamResponded();
+      openaiReq.model = meter.model = upstreams[0].model;
+      const infiniaxReq = transformRequest(openaiReq);
+      const promptTokens = countMessageTokens(infiniaxReq.messages, openaiReq.model);
+      response = withModelHeader(
+        handleStreamingResponse(upstreams.map((u) => u.value.response), openaiReq, promptTokens, meter, {
+          cacheKey,
+          onComplete,
+        }),
+        openaiReq.model
+      );
+    } else {
+      // Handle non-streaming response
+      response = await handleNonStreamingResponse(openaiReq, chain, policy, meter, cacheKey, onComplete);
+    }
+
+    if (cache) {
+      withCacheStatus(response, cached ? "HIT" : cacheKey ? "MISS" : "BYPASS");
+    }
+    withThreadHeaders(response, turn);
+    // Report parameters that were accepted but not honored
+    const unsupported = unsupportedParams(openaiReq);
+    if (unsupported.length > 0) {
+      response.headers.set("x-unsupported-params", unsupported.join(","));
+    }
+    return response;
+  } catch (error) {
+    // Catch-all for unexpected errors (Requirements: 7.2 - Unknown errors → 500)
+    log("error", "Unexpected error in handleChatCompletions", { request_id: requestContext(req).id, caller: callerId(policy), error });
+    meter?.finish(500);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * A parsed infiniax SSE message.
+ * infiniax format: data: {"chunk":"text"} ... data: {"done":true}
+ * Errors are reported as data: {"error":"message"} (or {"error":{"message":...}}).
+ */
+type InfiniaxEvent =
+  | { type: "chunk"; content: string }
+  | { type: "reasoning"; content: string }
+  | { type: "sources"; sources: UrlCitation[] }
+  | { type: "done" }
+  | { type: "error"; message: string };
+
+/**
+ * Parses one SSE line ("data: {...}") into infiniax events. A message may
+ * carry several fields, e.g. {"reasoning":"...","chunk":"..."}:
+ * - chunk: answer text
+ * - reasoning / thinking / reasoningChunk: reasoning text
+ * - sources / citations / searchResults: web search results
+ * - done / error
+ * Returns no events for blank lines, comments, unknown fields and invalid JSON.
+ */
+function parseInfiniaxLine(line: string): InfiniaxEvent[] {
+  if (!line.startsWith('data: ')) {
+    return [];
+  }
+  try {
+    const data = JSON.parse(line.slice(6));
+    if (!data || typeof data !== "object") {
+      return [];
+    }
+    if (data.error) {
+      const message = typeof data.error === "string" ? data.error : data.error.message || JSON.stringify(data.error);
+      return [{ type: "error", message }];
+    }
+
+    const events: InfiniaxEvent[] = [];
+    const sources = parseSources(data.sources ?? data.citations ?? data.searchResults);
+    if (sources.length) {
+      events.push({ type: "sources", sources });
+    }
+    const reasoning = data.reasoning ?? data.thinking ?? data.reasoningChunk;
+    if (typeof reasoning === "string" && reasoning) {
+      events.push({ type: "reasoning", content: reasoning });
+    }
+    if (typeof data.chunk === "string" && data.chunk) {
+      events.push({ type: "chunk", content: data.chunk });
+    }
+    if (data.done) {
+      events.push({ type: "done" });
+    }
+    return events;
+  } catch {
+    // Skip invalid JSON
+  }
+  return [];
+}
+
+/**
+ * Callbacks invoked while relaying an infiniax SSE stream.
+ * - onChunk: called for every piece of answer text
+ * - onReasoning: called for reasoning text (reasoning events and inline <think> blocks)
+ * - onSources: called when upstream reports web search results
+ * - onEnd: called once when upstream sends {"done":true}
+ * - onError: called once instead of onEnd when upstream reports an error, the
+ *   connection fails, or the body ends without {"done":true} (truncated answer)
+ * - onCancel: called once instead of either when the client disconnects
+ */
+interface InfiniaxStreamHandlers {
+  // Returns true when the output is complete (stop sequence / max_tokens reached)
+  onChunk(content: string, controller: ReadableStreamDefaultController<Uint8Array>): boolean | void;
+  onReasoning?(content: string, controller: ReadableStreamDefaultController<Uint8Array>): void;
+  onSources?(sources: UrlCitation[], controller: ReadableStreamDefaultController<Uint8Array>): void;
+  // May return a promise: the stream closes once it settles
+  onEnd(controller: ReadableStreamDefaultController<Uint8Array>): void | Promise<void>;
+  onError(message: string, controller: ReadableStreamDefaultController<Uint8Array>): void;
+  onCancel(): void;
+}
+
+/**
+ * Wraps a stream controller to report every enqueued chunk.
+ */
+function countingController(
+  controller: ReadableStreamDefaultController<Uint8Array>,
+  onEnqueue: () => void
+): ReadableStreamDefaultController<Uint8Array> {
+  return {
+    get desiredSize() {
+      return controller.desiredSize;
+    },
+    enqueue(chunk) {
+      onEnqueue();
+      controller.enqueue(chunk);
+    },
+    close() {
+      controller.close();
+    },
+    error(reason) {
+      controller.error(reason);
+    },
+  };
+}
+
+/**
+ * Parses an infiniax SSE body and relays it through the given handlers.
+ * infiniax format: data: {"chunk":"text"}\n\n
+ * Shared by the OpenAI and Anthropic streaming endpoints.
+ * Requirements: 4.4
+ */
+function pipeInfiniaxStream(
+  body: ReadableStream<Uint8Array>,
+  model: string,
+  handlers: InfiniaxStreamHandlers
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const thinkParser = createThinkParser(model);
+  let buffer = '';
+  let finished = false;
+  let cancelled = false;
+
+  const finish = async (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    error: string | null
+  ) => {
+    finished = true;
+    // Stop reading anything upstream sends after done/error
+    reader.cancel().catch(() => {});
+    try {
+      if (error) {
+        log("error", "Upstream stream failed", { error });
+        handlers.onError(error, controller);
+      } else {
+        await handlers.onEnd(controller);
+      }
+      controller.close();
+    } catch (error) {
+      // The client may disconnect while onEnd awaits; nothing can be sent then
+      if (!cancelled) throw error;
+    }
+  };
+
+  const handleSegments = async (
+    segments: ThinkSegment[],
+    controller: ReadableStreamDefaultController<Uint8Array>
+  ) => {
+    for (const segment of segments) {
+      if (finished) return;
+      let complete: boolean | void = false;
+      try {
+        if (segment.type === "reasoning") {
+          handlers.onReasoning?.(segment.text, controller);
+        } else {
+          complete = handlers.onChunk(segment.text, controller);
+        }
+      } catch (error) {
+        // Log error but continue processing (Requirements: 4.4 - graceful handling)
+        log("error", "Error processing stream chunk", { error });
+      }
+      if (complete) {
+        await finish(controller, null);
+      }
+    }
+  };
+
+  const handleLines = async (
+    lines: string[],
+    controller: ReadableStreamDefaultController<Uint8Array>
+  ) => {
+    for (const line of lines) {
+      for (const event of parseInfiniaxLine(line)) {
+        if (finished) return;
+
+        if (event.type === "chunk") {
+          await handleSegments(thinkParser.push(event.content), controller);
+        } else if (event.type === "reasoning") {
+          await handleSegments([{ type: "reasoning", text: event.content }], controller);
+        } else if (event.type === "sources") {
+          handlers.onSources?.(event.sources, controller);
+        } else if (event.type === "done") {
+          await handleSegments(thinkParser.flush(), controller);
+          if (!finished) await finish(controller, null);
+        } else {
+          await finish(controller, `Upstream error: ${event.message}`);
+        }
+      }
+    }
+  };
+
+  const readUpstream = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    let result: ReadableStreamReadResult<Uint8Array>;
+    try {
+      result = await reader.read();
+    } catch (error) {
+      // Connection reset, timeout, etc. after streaming started
+      await finish(controller, `Upstream connection lost: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    if (result.done) {
+      // Process any remaining buffer
+      buffer += decoder.decode();
+      await handleLines(buffer.split('\n'), controller);
+      if (!finished) {
+        await finish(controller, "Upstream stream ended before completion");
+      }
+      return;
+    }
+
+    buffer += decoder.decode(result.value, { stream: true });
+
+    // Process complete lines, keep a trailing partial line in the buffer
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    await handleLines(lines, controller);
+  };
+
+  // Counts what the handlers enqueue: a pull() that delivers nothing (a
+  // partial line, a skipped event) would never be called again, so keep
+  // reading until there is output
+  let produced = 0;
+  let output: ReadableStreamDefaultController<Uint8Array>;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      output = countingController(controller, () => produced++);
+    },
+    async pull() {
+      const before = produced;
+      while (!finished && produced === before) {
+        await readUpstream(output);
+      }
+    },
+    cancel(reason) {
+      // Client disconnected
+      cancelled = true;
+      if (!finished) {
+        finished = true;
+        handlers.onCancel();
+      }
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Headers for server-sent event responses.
+ */
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  "Connection": "keep-alive",
+};
+
+/**
+ * Options for handleStreamingResponse.
+ * - cacheKey: store the completed answer in the response cache
+ * - finishReason: cut reason of a replayed cached answer
+ * - onComplete: called with the first choice once the stream completes
+ */
+interface StreamOptions {
+  cacheKey?: string | null;
+  finishReason?: FinishReason | null;
+  onComplete?: (choice: GeneratedChoice) => void | Promise<void>;
+}
+
+/**
+ * Processes streaming response from infiniax and converts to OpenAI SSE format.
+ * infiniax format: data: {"chunk":"text"}\n\n
+ * OpenAI format: data: {"id":...,"choices":[{"delta":{"content":"text"}}]}\n\n
+ * Stop sequences and max_tokens cut the output (finish_reason "stop" / "length").
+ * With n > 1, one upstream response per choice is multiplexed into the stream.
+ * Requirements: 4.1, 4.2, 4.3, 4.4
+ */
+function handleStreamingResponse(
+  upstreamResponses: Response[],
+  openaiReq: OpenAIRequest,
+  promptTokens: number,
+  meter: UsageMeter,
+  options: StreamOptions = {}
+): Response {
+  const model = openaiReq.model;
+  const responseId = generateId(meter.requestId);
+  const created = Math.floor(Date.now() / 1000);
+  const encoder = new TextEncoder();
+  const jsonMode = isJsonMode(openaiReq);
+  const includeUsage = openaiReq.stream_options?.include_usage === true;
+  const contents = upstreamResponses.map(() => "");
+  const reasonings = upstreamResponses.map(() => "");
+  const sources = upstreamResponses.map((): UrlCitation[] => []);
+  const readers: ReadableStreamDefaultReader<Uint8Array>[] = [];
+  let remaining = upstreamResponses.length;
+  let closed = false;
+  // With several choices: the final event, sent once every choice has been relayed
+  let tail: string | null = null;
+
+  const bodies = upstreamResponses.map((r) => r.body);
+  if (bodies.some((body) => !body)) {
+    bodies.forEach((body) => body?.cancel());
+    meter.finish(502);
+    return errorResponse("No response body from upstream", 502);
+  }
+
+  const usage = (): OpenAIUsage => {
+    const reasoningTokens = reasonings.reduce((sum, text) => sum + estimateTokens(text, model), 0);
+    const completionTokens = contents.reduce((sum, text) => sum + estimateTokens(text, model), 0) + reasoningTokens;
+    const usage: OpenAIUsage = {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+    if (reasoningTokens > 0) {
+      usage.completion_tokens_details = { reasoning_tokens: reasoningTokens };
+    }
+    return usage;
+  };
+
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, sse: string) => {
+    if (!closed) {
+      controller.enqueue(encoder.encode(sse));
+    }
+  };
+
+  // Ends the client stream once: after the last choice, or on the first error
+  const end = (
+    index: number,
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    sse: string,
+    status: number,
+    errorClass?: string
+  ) => {
+    if (closed) return;
+    if (bodies.length === 1) {
+      send(controller, sse);
+    } else {
+      tail = sse;
+      // An error stops the other choices; this one still relays what it has queued
+      if (remaining > 0) {
+        readers.forEach((reader, i) => i !== index && reader.cancel().catch(() => {}));
+      }
+    }
+    closed = true;
+    meter.finish(status, usage(), errorClass);
+  };
+
+  // Client disconnected: record the call with what was sent so far
+  const disconnect = () => {
+    if (closed) return;
+    closed = true;
+    meter.finish(499, usage(), "client_disconnected");
+  };
+
+  const relay = (index: number): InfiniaxStreamHandlers => {
+    const toolParser = hasToolEmulation(openaiReq) ? createToolCallParser() : null;
+    const limiter = outputLimiterFor(openaiReq);
+    let toolCallCount = 0;
+    let isFirst = true;
+    let cut: FinishReason | null = null;
+
+    const emitText = (text: string, controller: ReadableStreamDefaultController<Uint8Array>) => {
+      if (!text) return;
+      contents[index] += text;
+      const segments: ToolStreamSegment[] = toolParser ? toolParser.push(text) : [{ type: "text", text }];
+      emitSegments(segments, controller);
+    };
+
+    const emitSegments = (
+      segments: ToolStreamSegment[],
+      controller: ReadableStreamDefaultController<Uint8Array>
+    ) => {
+      for (const segment of segments) {
+        meter.firstToken();
+        const sseChunk = segment.type === "text"
+          ? transformStreamChunk(segment.text, model, responseId, created, isFirst, undefined, index)
+          : transformStreamChunk("", model, responseId, created, isFirst, [
+            { index: toolCallCount++, ...segment.call },
+          ], index);
+        isFirst = false;
+        send(controller, sseChunk);
+      }
+    };
+
+    return {
+      onChunk(content, controller) {
+        const limited = limiter.push(content);
+        emitText(limited.text, controller);
+        cut = limited.finishReason;
+        return cut !== null;
+      },
+      onReasoning(reasoning, controller) {
+        meter.firstToken();
+        reasonings[index] += reasoning;
+        send(controller, transformReasoningChunk(reasoning, model, responseId, created, isFirst, index));
+        isFirst = false;
+      },
+      onSources(found) {
+        mergeSources(sources[index], found);
+      },
+      onEnd(controller) {
+        if (cut === null) {
+          const rest = limiter.flush();
+          emitText(rest.text, controller);
+          cut = rest.finishReason;
+        }
+        if (toolParser) {
+          emitSegments(toolParser.flush(), controller);
+        }
+        // Validate JSON output before reporting a clean finish (truncated output is reported as "length")
+        if (jsonMode && toolCallCount === 0 && cut !== "length") {
+          const check = checkResponseFormat(contents[index], openaiReq);
+          if ("errors" in check) {
+            const message = `Model output does not match response_format: ${check.errors.join("; ")}`;
+            end(index, controller, createStreamErrorChunk(message, "json_validation_failed"), 502, "json_validation_failed");
+            return;
+          }
+        }
+
+        // Citations are sent once the answer text (and its [n] markers) is known
+        if (sources[index].length && contents[index]) {
+          const annotations = buildAnnotations(contents[index], sources[index]);
+          send(controller, createDeltaChunk({ annotations }, model, responseId, created, index));
+        }
+
+        const reason = options.finishReason ?? cut;
+        const finishReason = reason === "length" ? "length" : toolCallCount > 0 ? "tool_calls" : "stop";
+        send(controller, createFinishChunk(model, responseId, created, finishReason, index));
+        if (--remaining > 0) return;
+
+        const choice: GeneratedChoice = {
+          model,
+          content: contents[0],
+          finishReason: reason,
+          reasoning: reasonings[0],
+          sources: sources[0],
+        };
+        if (options.cacheKey) {
+          storeCachedCompletion(options.cacheKey, choice);
+        }
+        options.onComplete?.(choice);
+        // Send stream end marker
+        end(index, controller, createStreamTail(model, responseId, created, includeUsage ? usage() : undefined), 200);
+      },
+      onError(message, controller) {
+        // Never report a truncated answer as a clean "stop"
+        end(index, controller, createStreamErrorChunk(message, "upstream_stream_error"), 502, "upstream_stream_error");
+      },
+      onCancel: disconnect,
+    };
+  };
+
+  if (bodies.length === 1) {
+    return new Response(pipeInfiniaxStream(bodies[0]!, model, relay(0)), {
+      status: 200,
+      headers: SSE_HEADERS,
+    });
+  }
+
+  // Each choice is relayed into the client stream, reading on only while the
+  // client keeps up; pull() wakes the relays waiting for it
+  let disconnected = false;
+  let demand = Promise.withResolvers<void>();
+
+  const transformedBody = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const relays = bodies.map(async (body, index) => {
+        const reader = pipeInfiniaxStream(body!, model, relay(index)).getReader();
+        readers.push(reader);
+        try {
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done || disconnected) break;
+            controller.enqueue(value);
+            while (!disconnected && (controller.desiredSize ?? 0) <= 0) {
+              await demand.promise;
+            }
+          }
+        } catch {
+          // Cancelled after another choice failed
+        }
+      });
+      Promise.all(relays).then(() => {
+        if (disconnected) return;
+        if (tail) {
+          controller.enqueue(encoder.encode(tail));
+        }
+        controller.close();
+      });
+    },
+    pull() {
+      demand.resolve();
+      demand = Promise.withResolvers<void>();
+    },
+    cancel() {
+      // Client disconnected
+      disconnected = true;
+      demand.resolve();
+      disconnect();
+      readers.forEach((reader) => reader.cancel().catch(() => {}));
+    },
+  });
+
+  return new Response(transformedBody, {
+    status: 200,
+    headers: SSE_HEADERS,
+  });
+}
+
+/**
+ * Result of parsing a complete infiniax SSE response.
+ * - reasoning: reasoning text, kept apart from the answer
+ * - sources: web search results cited by the answer
+ * - done: upstream sent {"done":true} (otherwise the answer is truncated)
+ * - error: error message reported by upstream, if any
+ */
+interface InfiniaxResult {
+  content: string;
+  reasoning: string;
+  sources: UrlCitation[];
+  done: boolean;
+  error: string | null;
+}
+
+/**
+ * Parses infiniax SSE response and extracts content chunks.
+ * infiniax format: data: {"chunk":"text"}\n\ndata: {"done":true}\n\n
+ */
+function parseInfiniaxSSE(sseText: string, model: string): InfiniaxResult {
+  const result: InfiniaxResult = { content: '', reasoning: '', sources: [], done: false, error: null };
+  const thinkParser = createThinkParser(model);
+  const collect = (segments: ThinkSegment[]) => {
+    for (const segment of segments) {
+      if (segment.type === "reasoning") result.reasoning += segment.text;
+      else result.content += segment.text;
+    }
+  };
+  
+  for (const line of sseText.split('\n')) {
+    for (const event of parseInfiniaxLine(line)) {
+      if (event.type === "chunk") {
+        collect(thinkParser.push(event.content));
+      } else if (event.type === "reasoning") {
+        result.reasoning += event.content;
+      } else if (event.type === "sources") {
+        mergeSources(result.sources, event.sources);
+      } else if (event.type === "done") {
+        result.done = true;
+      } else {
+        result.error = event.message;
+      }
+    }
+    if (result.done || result.error) break;
+  }
+  collect(thinkParser.flush());
+  
+  return result;
+}
+
+/**
+ * Sends a request upstream and reads the complete (non-streaming) answer.
+ * A body that fails or ends before {"done":true} is retried with backoff,
+ * since nothing has reached the client yet.
+ */
+async function fetchCompletion(
+  infiniaxReq: InfiniaxRequest,
+  policy: ApiKeyPolicy
+): Promise<{ result: InfiniaxResult } | { error: Response }> {
+  for (let attempt = 0; ; attempt++) {
+    const upstream = await callUpstream(infiniaxReq, policy);
+    if ("error" in upstream) {
+      return upstream;
+    }
+
+    let result: InfiniaxResult;
+    try {
+      result = parseInfiniaxSSE(await upstream.response.text(), infiniaxReq.modelId);
+    } catch (error) {
+      log("error", "Upstream body failed", { caller: callerId(policy), error });
+      result = { content: '', reasoning: '', sources: [], done: false, error: null };
+    }
+
+    if (result.error) {
+      return { error: errorResponse(`Upstream error: ${result.error}`, 502, "upstream_error") };
+    }
+    if (result.done) {
+      return { result };
+    }
+    if (attempt >= config.upstream_retries) {
+      return { error: errorResponse("Upstream response ended before completion", 502, "upstream_truncated") };
+    }
+    await sleep(retryDelay(attempt));
+  }
+}
+
+/**
+ * One generated choice of a non-streaming completion.
+ */
+interface GeneratedChoice {
+  model: string;
+  content: string;
+  finishReason: FinishReason | null;
+  reasoning: string;
+  sources: UrlCitation[];
+}
+
+/**
+ * Generates one choice: upstream call with model fallback, stop/max_tokens
+ * limits and, with a JSON response_format, the repair loop that sends invalid
+ * output back to the model up to JSON_REPAIR_ATTEMPTS times.
+ */
+async function generateChoice(
+  openaiReq: OpenAIRequest,
+  chain: string[],
+  policy: ApiKeyPolicy
+): Promise<GeneratedChoice | { error: Response }> {
+  // Send request (falling back along the model chain) and collect all chunks into complete content
+  const completion = await withModelFallback(chain, policy, (model) =>
+    fetchCompletion(transformRequest({ ...openaiReq, model }), policy)
+  );
+  if ("error" in completion) {
+    return completion;
+  }
+  const model = completion.model;
+  const modelReq = { ...openaiReq, model };
+  const infiniaxReq = transformRequest(modelReq);
+  const { reasoning, sources } = completion.value.result;
+  let { text: content, finishReason } = applyOutputLimits(completion.value.result.content, modelReq);
+
+  // Enforce response_format (tool call replies and truncated output are exempt)
+  const isToolCall = hasToolEmulation(modelReq) && extractToolCalls(content).toolCalls.length > 0;
+  if (isJsonMode(modelReq) && !isToolCall && finishReason !== "length") {
+    const messages = [...infiniaxReq.messages];
+    let check = checkResponseFormat(content, modelReq);
+    const maxAttempts = config.json_repair_attempts;
+
+    for (let attempt = 1; "errors" in check && attempt <= maxAttempts; attempt++) {
+      log("warn", "JSON output invalid", { caller: callerId(policy), attempt, max_attempts: maxAttempts, errors: check.errors });
+      messages.push(
+        { role: "assistant", content },
+        { role: "user", content: buildJsonRepairPrompt(check.errors) }
+      );
+      const retry = await fetchCompletion({ ...infiniaxReq, messages }, policy);
+      if ("error" in retry) {
+        return retry;
+      }
+      ({ text: content, finishReason } = applyOutputLimits(retry.result.content, modelReq));
+      if (finishReason === "length") {
+        break;
+      }
+      check = checkResponseFormat(content, modelReq);
+    }
+
+    if (finishReason !== "length") {
+      if ("errors" in check) {
+        return {
+          error: errorResponse(
+            `Model output does not match response_format after ${maxAttempts} repair attempt(s): ${check.errors.join("; ")}`,
+            502,
+            "json_validation_failed"
+          ),
+        };
+      }
+      content = check.json;
+    }
+  }
+
+  return { model, content, finishReason, reasoning, sources };
+}
+
+/**
+ * Processes non-streaming response from infiniax and converts to OpenAI format.
+ * n > 1 generates the choices with parallel upstream calls.
+ * Requirements: 5.1, 5.2, 5.3
+ */
+async function handleNonStreamingResponse(
+  openaiReq: OpenAIRequest,
+  chain: string[],
+  policy: ApiKeyPolicy,
+  meter: UsageMeter,
+  cacheKey: string | null,
+  onComplete?: (choice: GeneratedChoice) => Promise<void>
+): Promise<Response> {
+  try {
+    const choices = await fanOut(openaiReq.n ?? 1, () => generateChoice(openaiReq, chain, policy));
+    if ("error" in choices) {
+      meter.finish(choices.error.status);
+      return choices.error;
+    }
+    meter.upstreamResponded();
+    openaiReq.model = meter.model = choices[0].model;
+
+    if (cacheKey) {
+      storeCachedCompletion(cacheKey, choices[0]);
+    }
+    await onComplete?.(choices[0]);
+
+    // Transform to OpenAI response format
+    const promptTokens = countMessageTokens(transformRequest(openaiReq).messages, openaiReq.model);
+    return withModelHeader(completionResponse(choices, openaiReq, promptTokens, meter), openaiReq.model);
+  } catch (error) {
+    // Handle errors during response processing (Requirements: 5.3)
+    log("error", "Error processing non-streaming response", { request_id: meter.requestId, error });
+    meter.finish(502);
+    return errorResponse("Upstream error", 502);
+  }
+}
+
+/**
+ * Builds the non-streaming chat completion response for final choices
+ * (fresh from upstream or from the response cache).
+ */
+function completionResponse(
+  choices: GeneratedChoice[],
+  openaiReq: OpenAIRequest,
+  promptTokens: number,
+  meter: UsageMeter
+): Response {
+  const responses = choices.map((choice) =>
+    transformResponse(
+      choice.content,
+      openaiReq.model,
+      hasToolEmulation(openaiReq),
+      promptTokens,
+      choice.finishReason,
+      choice.reasoning,
+      choice.sources
+    )
+  );
+  const completionTokens = responses.reduce((sum, r) => sum + r.usage.completion_tokens, 0);
+  const reasoningTokens = responses.reduce(
+    (sum, r) => sum + (r.usage.completion_tokens_details?.reasoning_tokens ?? 0),
+    0
+  );
+  const openaiResponse: OpenAIResponse = {
+    ...responses[0],
+    id: generateId(meter.requestId),
+    choices: responses.map((r, index) => ({ ...r.choices[0], index })),
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+  if (reasoningTokens > 0) {
+    openaiResponse.usage.completion_tokens_details = { reasoning_tokens: reasoningTokens };
+  }
+  meter.finish(200, openaiResponse.usage);
+
+  return new Response(JSON.stringify(openaiResponse), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// ============================================================================
+// Completions Handler (legacy /v1/completions)
+// ============================================================================
+
+/**
+ * Converts one prompt of a legacy completion request to a chat request:
+ * the prompt is sent as a single user message, the generation parameters
+ * carry over unchanged.
+ */
+export function completionToChatRequest(completionReq: CompletionRequest, prompt: string): OpenAIRequest {
+  return {
+    model: completionReq.model,
+    messages: [{ role: "user", content: prompt }],
+    stream: completionReq.stream,
+    stream_options: completionReq.stream_options,
+    temperature: completionReq.temperature,
+    top_p: completionReq.top_p,
+    max_tokens: completionReq.max_tokens,
+    stop: completionReq.stop,
+    n: completionReq.n,
+    seed: completionReq.seed,
+    presence_penalty: completionReq.presence_penalty,
+    frequency_penalty: completionReq.frequency_penalty,
+    logit_bias: completionReq.logit_bias,
+    logprobs: (completionReq.logprobs ?? 0) > 0,
+    user: completionReq.user,
+    web_search: completionReq.web_search,
+  };
+}
+
+/**
+ * Normalizes the prompt field to a list of prompts.
+ * Returns null for token-id prompts and anything else that is not a
+ * non-empty string or array of non-empty strings.
+ */
+function completionPrompts(prompt: unknown): string[] | null {
+  const prompts = typeof prompt === "string" ? [prompt] : prompt;
+  if (!Array.isArray(prompts) || prompts.length === 0) {
+    return null;
+  }
+  return prompts.every((p) => typeof p === "string" && p !== "") ? prompts : null;
+}
+
+/**
+ * Legacy parameters the proxy cannot honor, on top of UNSUPPORTED_PARAMS.
+ */
+function unsupportedCompletionParams(completionReq: CompletionRequest): string[] {
+  const names: string[] = [];
+  if (completionReq.suffix) names.push("suffix");
+  if ((completionReq.best_of ?? 1) > 1) names.push("best_of");
+  return names;
+}
+
+/**
+ * Handles POST /v1/completions (legacy text completions).
+ * Each prompt of the request goes through the chat pipeline as a user
+ * message; choice i answers prompt floor(i / n). echo prepends the prompt
+ * to its choices.
+ */
+async function handleCompletions(
+  req: Request,
+  policy: ApiKeyPolicy
+): Promise<Response> {
+  let meter: UsageMeter | undefined;
+  try {
+    let completionReq: CompletionRequest;
+    try {
+      completionReq = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON", 400);
+    }
+
+    // Validate required fields
+    if (!completionReq.model || completionReq.prompt === undefined) {
+      return errorResponse("Missing required fields: model and prompt", 400);
+    }
+    const prompts = completionPrompts(completionReq.prompt);
+    if (!prompts) {
+      return errorResponse(
+        "prompt must be a non-empty string or an array of non-empty strings (token ids are not supported)",
+        400,
+        "invalid_value"
+      );
+    }
+
+    // Validate n, stop and max_tokens; every prompt × n choice is a separate upstream call
+    const chatReqs = prompts.map((prompt) => completionToChatRequest(completionReq, prompt));
+    const invalidParams = checkGenerationParams(chatReqs[0]);
+    if (invalidParams) {
+      return invalidParams;
+    }
+    const n = completionReq.n ?? 1;
+    if (prompts.length * n > MAX_CHOICES) {
+      return errorResponse(
+        `The number of prompts times n must be at most ${MAX_CHOICES}; use /v1/batches for larger jobs`,
+        400,
+        "invalid_value"
+      );
+    }
+
+    // Resolve aliases and routing rules; reject unknown models before going upstream
+    const routing = await resolveModelChain(chatReqs[0], policy);
+    if ("error" in routing) {
+      return routing.error;
+    }
+    const chain = routing.chain;
+    for (const chatReq of chatReqs) {
+      chatReq.model = chain[0];
+    }
+
+    // Enforce per-key access policy
+    const denied = checkPolicy(policy, chatReqs[0]);
+    if (denied) {
+      return denied;
+    }
+
+    // Enforce usage quotas and rate limits, one upstream call per prompt and choice
+    const overLimit = await chargeUpstreamCalls(req, policy, chain[0], prompts.length * n);
+    if (overLimit) {
+      return overLimit;
+    }
+
+    meter = startUsageMeter(req, policy, "/v1/completions", chain[0], !!completionReq.web_search);
+    meter.upstreamCalls = prompts.length * n;
+    const promptOf = (index: number) => Math.floor(index / n);
+    const countPrompts = (model: string) =>
+      chatReqs.reduce((sum, chatReq) => sum + countMessageTokens(transformRequest({ ...chatReq, model }).messages, model), 0);
+    let response: Response;
+
+    if (completionReq.stream === true) {
+      const upstreams = await fanOut(
+        prompts.length * n,
+        (index) => withModelFallback(chain, policy, (model) =>
+          callUpstream(transformRequest({ ...chatReqs[promptOf(index)], model }), policy)
+        ),
+        (upstream) => upstream.value.response.body?.cancel()
+      );
+      if ("error" in upstreams) {
+        meter.finish(upstreams.error.status);
+        return upstreams.error;
+      }
+      meter.upstreamResponded();
+      const model = meter.model = upstreams[0].model;
+      const chatReq = { ...chatReqs[0], model };
+      const chatStream = handleStreamingResponse(
+        upstreams.map((u) => u.value.response),
+        chatReq,
+        countPrompts(model),
+        meter
+      );
+      if (!chatStream.ok || !chatStream.body) {
+        return chatStream;
+      }
+      const echo = completionReq.echo ? (index: number) => prompts[promptOf(index)] : null;
+      response = withModelHeader(
+        new Response(toCompletionStream(chatStream.body, "cmpl-" + meter.requestId, echo), {
+          status: 200,
+          headers: SSE_HEADERS,
+        }),
+        model
+      );
+    } else {
+      const choices = await fanOut(prompts.length * n, (index) =>
+        generateChoice(chatReqs[promptOf(index)], chain, policy)
+      );
+      if ("error" in choices) {
+        meter.finish(choices.error.status);
+        return choices.error;
+      }
+      meter.upstreamResponded();
+      const model = meter.model = choices[0].model;
+      const promptTokens = countPrompts(model);
+      const completionTokens = choices.reduce(
+        (sum, choice) => sum + computeUsage(0, choice.content, model, choice.reasoning).completion_tokens,
+        0
+      );
+
+      const completion: CompletionResponse = {
+        id: "cmpl-" + meter.requestId,
+        object: "text_completion",
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: choices.map((choice, index) => ({
+          text: (completionReq.echo ? prompts[promptOf(index)] : "") + choice.content,
+          index,
+          logprobs: null,
+          finish_reason: choice.finishReason === "length" ? "length" : "stop",
+        })),
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      };
+      meter.finish(200, completion.usage);
+      response = withModelHeader(
+        new Response(JSON.stringify(completion), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }),
+        model
+      );
+    }
+
+    // Report parameters that were accepted but not honored
+    const unsupported = [...unsupportedParams(chatReqs[0]), ...unsupportedCompletionParams(completionReq)];
+    if (unsupported.length > 0) {
+      response.headers.set("x-unsupported-params", unsupported.join(","));
+    }
+    return response;
+  } catch (error) {
+    log("error", "Unexpected error in handleCompletions", { request_id: requestContext(req).id, caller: callerId(policy), error });
+    meter?.finish(500);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * Rewrites a chat completion SSE stream as legacy completion chunks:
+ * {"object":"text_completion","choices":[{"text":...,"index":...,"finish_reason":...}]}.
+ * Deltas without text (role, reasoning, annotations) are dropped; usage,
+ * errors and [DONE] pass through. With echo, each choice starts with its prompt.
+ */
+function toCompletionStream(
+  chatStream: ReadableStream<Uint8Array>,
+  id: string,
+  echo: ((index: number) => string) | null
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const echoed = new Set<number>();
+  let buffer = "";
+
+  const convert = (event: string): string => {
+    if (!event.startsWith("data: ") || event === "data: [DONE]") {
+      return event;
+    }
+    const chunk = JSON.parse(event.slice(6));
+    if (!Array.isArray(chunk.choices)) {
+      return event;
+    }
+
+    const choices: CompletionResponse["choices"] = [];
+    for (const choice of chunk.choices as OpenAIStreamChunk["choices"]) {
+      let text = choice.delta.content ?? "";
+      if (echo && !echoed.has(choice.index)) {
+        echoed.add(choice.index);
+        text = echo(choice.index) + text;
+      }
+      if (text || choice.finish_reason) {
+        choices.push({ text, index: choice.index, logprobs: null, finish_reason: choice.finish_reason });
+      }
+    }
+    if (choices.length === 0 && !chunk.usage) {
+      return "";
+    }
+
+    const completionChunk: CompletionResponse = {
+      id,
+      object: "text_completion",
+      created: chunk.created,
+      model: chunk.model,
+      choices,
+    };
+    if (chunk.usage) {
+      completionChunk.usage = chunk.usage;
+    }
+    return `data: ${JSON.stringify(completionChunk)}`;
+  };
+
+  const convertEvents = (events: string[]) =>
+    encoder.encode(events.map(convert).filter(Boolean).map((event) => event + "\n\n").join(""));
+
+  return chatStream.pipeThrough(new TextDecoderStream()).pipeThrough(
+    new TransformStream<string, Uint8Array>({
+      transform(text, controller) {
+        buffer += text;
+        const events = buffer.split("\n\n");
+        buffer = events.pop()!;
+        controller.enqueue(convertEvents(events));
+      },
+      flush(controller) {
+        if (buffer.trim()) {
+          controller.enqueue(convertEvents([buffer.trim()]));
+        }
+      },
+    })
+  );
+}
+
+// ============================================================================
+// Anthropic Messages Handler
+// ============================================================================
+
+/**
+ * Flattens Anthropic content (string or content blocks) into plain text.
+ * Non-text blocks are skipped.
+ */
+function flattenAnthropicContent(content: string | AnthropicContentBlock[] | undefined): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .filter((block) => block.type === "text" && typeof block.text === "string")
+    .map((block) => block.text)
+    .join("\n");
+}
+
+/**
+ * Converts Anthropic message content to OpenAI content.
+ * Image blocks (base64 or url sources) become image_url parts; other
+ * non-text blocks are skipped.
+ */
+function anthropicToOpenAIContent(
+  content: string | AnthropicContentBlock[]
+): string | OpenAIContentPart[] {
+  if (!Array.isArray(content) || !content.some((block) => block.type === "image")) {
+    return flattenAnthropicContent(content);
+  }
+
+  const parts: OpenAIContentPart[] = [];
+  for (const block of content) {
+    if (block.type === "text" && typeof block.text === "string") {
+      parts.push({ type: "text", text: block.text });
+    } else if (block.type === "image") {
+      const source = block.source as { type: string; media_type?: string; data?: string; url?: string } | undefined;
+      if (source?.type === "base64") {
+        parts.push({ type: "image_url", image_url: { url: `data:${source.media_type};base64,${source.data}` } });
+      } else if (source?.type === "url" && source.url) {
+        parts.push({ type: "image_url", image_url: { url: source.url } });
+      }
+    }
+  }
+  return parts;
+}
+
+/**
+ * Converts an Anthropic Messages request to an OpenAI chat completion request,
+ * so it can go through the same transformRequest pipeline.
+ * - system → leading system message
+ * - content blocks → text content (image blocks → image_url parts)
+ * - web_search_* server tools (or web_search) → web_search
+ */
+export function anthropicToOpenAIRequest(anthropicReq: AnthropicRequest): OpenAIRequest {
+  const messages: OpenAIMessage[] = [];
+
+  const system = flattenAnthropicContent(anthropicReq.system);
+  if (system) {
+    messages.push({ role: "system", content: system });
+  }
+
+  for (const msg of anthropicReq.messages) {
+    messages.push({ role: msg.role, content: anthropicToOpenAIContent(msg.content) });
+  }
+
+  const webSearch = anthropicReq.web_search === true ||
+    (anthropicReq.tools || []).some((tool) => tool.type?.startsWith("web_search"));
+
+  return {
+    model: anthropicReq.model,
+    messages,
+    stream: anthropicReq.stream,
+    temperature: anthropicReq.temperature,
+    top_p: anthropicReq.top_p,
+    max_tokens: anthropicReq.max_tokens,
+    stop: anthropicReq.stop_sequences,
+    web_search: webSearch || undefined,
+  };
+}
+
+/**
+ * Generates a unique ID for Anthropic message format.
+ */
+function generateMessageId(): string {
+  return "msg_" + crypto.randomUUID().replace(/-/g, "").slice(0, 24);
+}
+
+/**
+ * Maps why the output ended to the Anthropic stop_reason.
+ */
+function anthropicStopReason(finishReason: FinishReason | null): string {
+  if (finishReason === "length") return "max_tokens";
+  if (finishReason === "stop") return "stop_sequence";
+  return "end_turn";
+}
+
+/**
+ * Transforms a complete infiniax response to Anthropic message format.
+ * Used for non-streaming /v1/messages responses.
+ */
+export function transformAnthropicResponse(
+  content: string,
+  model: string,
+  promptTokens: number = 0,
+  finishReason: FinishReason | null = null,
+  stopSequence: string | null = null,
+  reasoning: string = "",
+  sources: UrlCitation[] = []
+): AnthropicResponse {
+  const text: AnthropicContentBlock = { type: "text", text: content };
+  if (sources.length) {
+    text.citations = sources.map(anthropicCitation);
+  }
+  return {
+    id: generateMessageId(),
+    type: "message",
+    role: "assistant",
+    model: model,
+    content: reasoning ? [{ type: "thinking", thinking: reasoning, signature: "" }, text] : [text],
+    stop_reason: anthropicStopReason(finishReason),
+    stop_sequence: stopSequence,
+    usage: {
+      input_tokens: promptTokens,
+      output_tokens: estimateTokens(content, model) + estimateTokens(reasoning, model),
+    },
+  };
+}
+
+/**
+ * Maps a web search source to an Anthropic web_search_result_location citation.
+ */
+function anthropicCitation(source: UrlCitation): Record<string, unknown> {
+  return { type: "web_search_result_location", url: source.url, title: source.title ?? source.url, cited_text: "" };
+}
+
+/**
+ * Formats an Anthropic SSE event: "event: {type}\ndata: {json}\n\n"
+ */
+export function anthropicEvent(type: string, data: Record<string, unknown> = {}): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+/**
+ * Maps an HTTP status to the Anthropic error "type" field.
+ */
+function anthropicErrorType(status: number): string {
+  if (status === 404) return "not_found_error";
+  if (status >= 500) return "api_error";
+  return errorTypeForStatus(status);
+}
+
+/**
+ * Creates an error response in Anthropic error format:
+ * {"type":"error","error":{"type":...,"message":...}}
+ */
+function anthropicErrorResponse(
+  message: string,
+  status: number,
+  extraHeaders: Record<string, string> = {}
+): Response {
+  return new Response(
+    JSON.stringify({ type: "error", error: { type: anthropicErrorType(status), message } }),
+    {
+      status,
+      headers: { "Content-Type": "application/json", ...extraHeaders },
+    }
+  );
+}
+
+/**
+ * Re-wraps an OpenAI-format error response (from errorResponse) in Anthropic format.
+ */
+async function toAnthropicError(response: Response): Promise<Response> {
+  let message = "Upstream error";
+  try {
+    const body = await response.json();
+    message = body.error?.message || message;
+  } catch {
+    // Keep the default message
+  }
+
+  // Keep Retry-After, x-ratelimit-* and similar headers
+  const extraHeaders: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (name !== "content-type" && name !== "content-length") {
+      extraHeaders[name] = value;
+    }
+  });
+  return anthropicErrorResponse(message, response.status, extraHeaders);
+}
+
+/**
+ * Handles POST /v1/messages requests (Anthropic Messages API).
+ * Maps the request onto the same InfiniaxRequest as chat completions,
+ * and returns Anthropic-shaped responses and stream events.
+ */
+async function handleMessages(
+  req: Request,
+  policy: ApiKeyPolicy
+): Promise<Response> {
+  let meter: UsageMeter | undefined;
+  try {
+    let anthropicReq: AnthropicRequest;
+    try {
+      anthropicReq = await req.json();
+    } catch {
+      return anthropicErrorResponse("Invalid JSON", 400);
+    }
+
+    // Validate required fields
+    if (!anthropicReq.model || !Array.isArray(anthropicReq.messages)) {
+      return anthropicErrorResponse("Missing required fields: model and messages", 400);
+    }
+    if (typeof anthropicReq.max_tokens !== "number") {
+      return anthropicErrorResponse("max_tokens: Field required", 400);
+    }
+
+    const openaiReq = anthropicToOpenAIRequest(anthropicReq);
+
+    // Resolve aliases and routing rules; reject unknown models before going upstream
+    const routing = await resolveModelChain(openaiReq, policy);
+    if ("error" in routing) {
+      return toAnthropicError(routing.error);
+    }
+    const chain = routing.chain;
+    openaiReq.model = chain[0];
+
+    // Enforce per-key access policy
+    const denied = checkPolicy(policy, openaiReq);
+    if (denied) {
+      return toAnthropicError(denied);
+    }
+
+    // Validate image blocks
+    const invalidContent = checkContentParts(openaiReq);
+    if (invalidContent) {
+      return toAnthropicError(invalidContent);
+    }
+
+    // Enforce usage quotas
+    const overQuota = await checkQuotas(policy, openaiReq.model);
+    if (overQuota) {
+      return toAnthropicError(overQuota);
+    }
+
+    meter = startUsageMeter(req, policy, "/v1/messages", openaiReq.model, !!openaiReq.web_search);
+
+    if (anthropicReq.stream === true) {
+      // Send request to infiniax API (with cookie pool failover, retries and model fallback)
+      const upstream = await withModelFallback(chain, policy, (model) =>
+        callUpstream(transformRequest({ ...openaiReq, model }), policy)
+      );
+      if ("error" in upstream) {
+        meter.finish(upstream.error.status);
+        return toAnthropicError(upstream.error);
+      }
+      meter.upstreamResponded();
+      const modelReq = { ...openaiReq, model: meter.model = upstream.model };
+      const promptTokens = countMessageTokens(transformRequest(modelReq).messages, modelReq.model);
+      return withModelHeader(
+        handleAnthropicStreamingResponse(upstream.value.response, modelReq, promptTokens, meter),
+        modelReq.model
+      );
+    }
+
+    const completion = await withModelFallback(chain, policy, (model) =>
+      fetchCompletion(transformRequest({ ...openaiReq, model }), policy)
+    );
+    if ("error" in completion) {
+      meter.finish(completion.error.status);
+      return toAnthropicError(completion.error);
+    }
+    meter.upstreamResponded();
+    const model = meter.model = completion.model;
+    const modelReq = { ...openaiReq, model };
+    const promptTokens = countMessageTokens(transformRequest(modelReq).messages, model);
+    // Enforce stop_sequences and max_tokens
+    const { reasoning, sources } = completion.value.result;
+    const { text: content, finishReason, stopSequence } = applyOutputLimits(completion.value.result.content, modelReq);
+    const anthropicResponse = transformAnthropicResponse(
+      content,
+      model,
+      promptTokens,
+      finishReason,
+      stopSequence,
+      reasoning,
+      sources
+    );
+    meter.finish(200, computeUsage(promptTokens, content, model, reasoning));
+    return new Response(JSON.stringify(anthropicResponse), {
+      status: 200,
+      headers: { "Content-Type": "application/json", "x-infiniax-model": model },
+    });
+  } catch (error) {
+    log("error", "Unexpected error in handleMessages", { request_id: requestContext(req).id, caller: callerId(policy), error });
+    meter?.finish(500);
+    return anthropicErrorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * Processes streaming response from infiniax and converts to Anthropic SSE events:
+ * message_start → content_block_start → content_block_delta* →
+ * content_block_stop → message_delta → message_stop
+ * Reasoning is streamed as thinking blocks, search results as citations_delta
+ * events on the text block. stop_sequences and max_tokens cut the output.
+ */
+function handleAnthropicStreamingResponse(
+  upstreamResponse: Response,
+  openaiReq: OpenAIRequest,
+  promptTokens: number,
+  meter: UsageMeter
+): Response {
+  const model = openaiReq.model;
+  const messageId = generateMessageId();
+  const encoder = new TextEncoder();
+  const limiter = outputLimiterFor(openaiReq);
+  const sources: UrlCitation[] = [];
+  let fullContent = "";
+  let reasoning = "";
+  let started = false;
+  let cut: OutputLimit | null = null;
+  // Content block currently open (thinking or text) and its index
+  let block: "thinking" | "text" | null = null;
+  let blockIndex = -1;
+
+  const body = upstreamResponse.body;
+  if (!body) {
+    meter.finish(502);
+    return anthropicErrorResponse("No response body from upstream", 502);
+  }
+
+  const ensureStarted = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    if (started) return;
+    started = true;
+    controller.enqueue(encoder.encode(
+      anthropicEvent("message_start", {
+        message: {
+          id: messageId,
+          type: "message",
+          role: "assistant",
+          model: model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: promptTokens, output_tokens: 0 },
+        },
+      })
+    ));
+  };
+
+  // Closes the open content block and starts one of the given type
+  const openBlock = (type: "thinking" | "text", controller: ReadableStreamDefaultController<Uint8Array>) => {
+    ensureStarted(controller);
+    if (block === type) return;
+    let events = block ? anthropicEvent("content_block_stop", { index: blockIndex }) : "";
+    block = type;
+    blockIndex++;
+    events += anthropicEvent("content_block_start", {
+      index: blockIndex,
+      content_block: type === "thinking" ? { type: "thinking", thinking: "" } : { type: "text", text: "" },
+    });
+    controller.enqueue(encoder.encode(events));
+  };
+
+  const emitText = (text: string, controller: ReadableStreamDefaultController<Uint8Array>) => {
+    if (!text) return;
+    meter.firstToken();
+    openBlock("text", controller);
+    fullContent += text;
+    controller.enqueue(encoder.encode(
+      anthropicEvent("content_block_delta", {
+        index: blockIndex,
+        delta: { type: "text_delta", text },
+      })
+    ));
+  };
+
+  const transformedBody = pipeInfiniaxStream(body, model, {
+    onChunk(content, controller) {
+      const limited = limiter.push(content);
+      emitText(limited.text, controller);
+      if (limited.finishReason) {
+        cut = limited;
+        return true;
+      }
+    },
+    onReasoning(thinking, controller) {
+      meter.firstToken();
+      openBlock("thinking", controller);
+      reasoning += thinking;
+      controller.enqueue(encoder.encode(
+        anthropicEvent("content_block_delta", {
+          index: blockIndex,
+          delta: { type: "thinking_delta", thinking },
+        })
+      ));
+    },
+    onSources(found) {
+      mergeSources(sources, found);
+    },
+    onEnd(controller) {
+      const last: OutputLimit = cut ?? limiter.flush();
+      if (!cut) {
+        emitText(last.text, controller);
+      }
+      // Always end with a text block, which carries the citations
+      openBlock("text", controller);
+      const citations = sources.map((source) =>
+        anthropicEvent("content_block_delta", {
+          index: blockIndex,
+          delta: { type: "citations_delta", citation: anthropicCitation(source) },
+        })
+      );
+      controller.enqueue(encoder.encode(
+        citations.join("") +
+        anthropicEvent("content_block_stop", { index: blockIndex }) +
+        anthropicEvent("message_delta", {
+          delta: { stop_reason: anthropicStopReason(last.finishReason), stop_sequence: last.stopSequence },
+          usage: { output_tokens: estimateTokens(fullContent, model) + estimateTokens(reasoning, model) },
+        }) +
+        anthropicEvent("message_stop")
+      ));
+      meter.finish(200, computeUsage(promptTokens, fullContent, model, reasoning));
+    },
+    onError(message, controller) {
+      controller.enqueue(encoder.encode(
+        anthropicEvent("error", { error: { type: "api_error", message } })
+      ));
+      meter.finish(502, computeUsage(promptTokens, fullContent, model, reasoning), "upstream_stream_error");
+    },
+    onCancel() {
+      meter.finish(499, computeUsage(promptTokens, fullContent, model, reasoning), "client_disconnected");
+    },
+  });
+
+  return new Response(transformedBody, {
+    status: 200,
+    headers: SSE_HEADERS,
+  });
+}
+
+// ============================================================================
+// Stored Responses (/v1/responses state)
+// ============================================================================
+
+/**
+ * One stored /v1/responses turn. Earlier turns of the conversation are
+ * reached through response.previous_response_id, so each entry stays small.
+ * - owner: hash of the API key that created it (other keys cannot read it)
+ * - input: this turn's input messages (instructions are not carried over)
+ */
+interface StoredResponse {
+  owner: string;
+  response: ResponseObject;
+  input: OpenAIMessage[];
+}
+
+/**
+ * Response store backend.
+ */
+interface ResponseStore {
+  kind: "memory" | "kv";
+  get(id: string): Promise<StoredResponse | null>;
+  set(entry: StoredResponse): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Stored responses expire after 30 days (as in the OpenAI API)
+const RESPONSE_STORE_TTL_MS = 30 * 24 * 3600 * 1000;
+// Maximum responses kept by the in-memory store (oldest are dropped)
+const MEMORY_RESPONSES_LIMIT = 10_000;
+// Longest previous_response_id chain that is followed
+const MAX_RESPONSE_CHAIN = 200;
+
+/**
+ * In-memory store (local development; lost on restart).
+ */
+function createMemoryResponseStore(): ResponseStore {
+  const entries = new Map<string, StoredResponse>();
+  return {
+    kind: "memory",
+    get(id) {
+      const entry = entries.get(id);
+      if (!entry || Date.now() - entry.response.created_at * 1000 > RESPONSE_STORE_TTL_MS) {
+        return Promise.resolve(null);
+      }
+      return Promise.resolve(entry);
+    },
+    set(entry) {
+      entries.set(entry.response.id, entry);
+      while (entries.size > MEMORY_RESPONSES_LIMIT) {
+        entries.delete(entries.keys().next().value!);
+      }
+      return Promise.resolve();
+    },
+    delete(id) {
+      return Promise.resolve(entries.delete(id));
+    },
+  };
+}
+
+/**
+ * Deno KV store (Deno Deploy). A turn too large for a KV value is not stored,
+ * so it cannot be continued with previous_response_id.
+ */
+function createKvResponseStore(kv: Deno.Kv): ResponseStore {
+  return {
+    kind: "kv",
+    async get(id) {
+      return (await kv.get<StoredResponse>(["responses", id])).value;
+    },
+    async set(entry) {
+      if (new TextEncoder().encode(JSON.stringify(entry)).length > KV_MAX_VALUE_BYTES) {
+        log("error", "Response is too large to store", { response_id: entry.response.id });
+        return;
+      }
+      await kv.set(["responses", entry.response.id], entry, { expireIn: RESPONSE_STORE_TTL_MS });
+    },
+    async delete(id) {
+      const key = ["responses", id];
+      if (!(await kv.get(key)).value) {
+        return false;
+      }
+      await kv.delete(key);
+      return true;
+    },
+  };
+}
+
+let responseStorePromise: Promise<ResponseStore> | null = null;
+
+/**
+ * Returns the response store (created on first use).
+ * RESPONSE_STORE: "kv" | "memory"; defaults to "kv" on Deno Deploy, "memory" elsewhere.
+ * Falls back to memory if KV cannot be opened.
+ */
+function getResponseStore(): Promise<ResponseStore> {
+  if (!responseStorePromise) {
+    responseStorePromise = (async () => {
+      const kind = RESPONSE_STORE || (Deno.env.get("DENO_DEPLOYMENT_ID") ? "kv" : "memory");
+      if (kind === "kv") {
+        try {
+          return createKvResponseStore(await Deno.openKv());
+        } catch (error) {
+          log("error", "Cannot open kv response store, falling back to memory", { error });
+        }
+      }
+      return createMemoryResponseStore();
+    })();
+  }
+  return responseStorePromise;
+}
+
+/**
+ * Loads a stored response owned by the caller (null if missing, expired or foreign).
+ */
+async function getStoredResponse(id: string, policy: ApiKeyPolicy): Promise<StoredResponse | null> {
+  const entry = await (await getResponseStore()).get(id);
+  return entry && entry.owner === await ownerId(policy) ? entry : null;
+}
+
+/**
+ * Rebuilds the conversation that ends with the given response: the input and
+ * output of every turn along the previous_response_id chain.
+ */
+async function loadConversation(
+  previousResponseId: string,
+  policy: ApiKeyPolicy
+): Promise<{ messages: OpenAIMessage[] } | { error: Response }> {
+  const turns: StoredResponse[] = [];
+  let id: string | null = previousResponseId;
+  while (id) {
+    if (turns.length >= MAX_RESPONSE_CHAIN) {
+      return { error: errorResponse(`Conversation is longer than ${MAX_RESPONSE_CHAIN} responses`, 400, "invalid_value") };
+    }
+    const entry = await getStoredResponse(id, policy);
+    if (!entry) {
+      return { error: errorResponse(`Previous response with id '${id}' not found.`, 404, "previous_response_not_found") };
+    }
+    turns.unshift(entry);
+    id = entry.response.previous_response_id;
+  }
+
+  const messages: OpenAIMessage[] = [];
+  for (const turn of turns) {
+    messages.push(...turn.input, { role: "assistant", content: responseOutputText(turn.response) });
+  }
+  return { messages };
+}
+
+/**
+ * Stores a finished turn; failures are logged and never affect the response.
+ */
+async function storeResponse(response: ResponseObject, input: OpenAIMessage[], policy: ApiKeyPolicy): Promise<void> {
+  try {
+    await (await getResponseStore()).set({ owner: await ownerId(policy), response, input });
+  } catch (error) {
+    log("error", "Error storing response", { response_id: response.id, error });
+  }
+}
+
+// ============================================================================
+// Responses API Handler
+// ============================================================================
+
+/**
+ * Generates a unique ID for Responses API objects, e.g. "resp_…", "msg_…", "rs_…".
+ */
+function generateResponsesId(prefix: string): string {
+  return `${prefix}_` + crypto.randomUUID().replace(/-/g, "");
+}
+
+/**
+ * Converts Responses API content to OpenAI content.
+ * input_text/output_text parts become text, input_image parts become
+ * image_url parts. Returns null for unsupported parts (e.g. input_file).
+ */
+function responsesToOpenAIContent(
+  content: string | ResponsesContentPart[] | undefined
+): string | OpenAIContentPart[] | null {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return null;
+  }
+
+  const parts: OpenAIContentPart[] = [];
+  for (const part of content) {
+    if ((part.type === "input_text" || part.type === "output_text") && typeof part.text === "string") {
+      parts.push({ type: "text", text: part.text });
+    } else if (part.type === "input_image" && typeof part.image_url === "string") {
+      parts.push({ type: "image_url", image_url: { url: part.image_url, detail: part.detail } });
+    } else {
+      return null;
+    }
+  }
+  if (parts.every((part) => part.type === "text")) {
+    return parts.map((part) => part.text).join("\n");
+  }
+  return parts;
+}
+
+/**
+ * Converts the Responses API input (a string or a list of message items) to
+ * chat messages. The developer role maps to system; reasoning items from
+ * earlier output are skipped.
+ */
+function responsesInputToMessages(
+  input: string | ResponsesInputItem[]
+): { messages: OpenAIMessage[] } | { error: Response } {
+  if (typeof input === "string") {
+    return { messages: [{ role: "user", content: input }] };
+  }
+
+  const messages: OpenAIMessage[] = [];
+  for (const item of input) {
+    const type = item?.type ?? "message";
+    if (type === "reasoning") {
+      continue;
+    }
+    if (type !== "message" || !["user", "assistant", "system", "developer"].includes(item.role ?? "")) {
+      return { error: errorResponse(`Unsupported input item: ${item?.role ? `role '${item.role}'` : `type '${type}'`}`, 400, "invalid_value") };
+    }
+    const content = responsesToOpenAIContent(item.content);
+    if (content === null) {
+      return { error: errorResponse("Unsupported content in input item (expected input_text or input_image parts)", 400, "invalid_value") };
+    }
+    messages.push({ role: item.role === "developer" ? "system" : item.role!, content });
+  }
+  return { messages };
+}
+
+/**
+ * Maps Responses API tools. Only the built-in web search tool is supported;
+ * it enables infiniax's webSearchEnabled.
+ */
+function responsesWebSearch(responsesReq: ResponsesRequest): { webSearch: boolean } | { error: Response } {
+  for (const tool of responsesReq.tools ?? []) {
+    if (!tool?.type?.startsWith("web_search")) {
+      return {
+        error: errorResponse(`Unsupported tool type '${tool?.type}': only web_search is supported`, 400, "unsupported_tool"),
+      };
+    }
+  }
+  return { webSearch: responsesReq.web_search === true || (responsesReq.tools ?? []).length > 0 };
+}
+
+/**
+ * Maps text.format onto response_format.
+ */
+function responsesFormat(responsesReq: ResponsesRequest): OpenAIResponseFormat | undefined {
+  const format = responsesReq.text?.format;
+  if (format?.type === "json_object") {
+    return { type: "json_object" };
+  }
+  if (format?.type === "json_schema") {
+    return {
+      type: "json_schema",
+      json_schema: { name: format.name, description: format.description, schema: format.schema, strict: format.strict },
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Builds a response object in its initial in_progress state.
+ */
+function createResponseObject(responsesReq: ResponsesRequest, model: string): ResponseObject {
+  return {
+    id: generateResponsesId("resp"),
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: "in_progress",
+    model,
+    instructions: responsesReq.instructions ?? null,
+    previous_response_id: responsesReq.previous_response_id ?? null,
+    output: [],
+    incomplete_details: null,
+    error: null,
+    usage: null,
+    store: responsesReq.store !== false,
+    temperature: responsesReq.temperature ?? null,
+    top_p: responsesReq.top_p ?? null,
+    max_output_tokens: responsesReq.max_output_tokens ?? null,
+    tools: responsesReq.tools ?? [],
+    metadata: responsesReq.metadata ?? {},
+  };
+}
+
+/**
+ * Converts chat-style citations to Responses API annotations.
+ */
+function responsesAnnotations(content: string, sources: UrlCitation[]): ResponsesAnnotation[] {
+  return buildAnnotations(content, sources).map(({ url_citation }) => ({ type: "url_citation", ...url_citation }));
+}
+
+/**
+ * Converts token usage to the Responses API shape.
+ */
+function responsesUsage(usage: OpenAIUsage): ResponsesUsage {
+  return {
+    input_tokens: usage.prompt_tokens,
+    output_tokens: usage.completion_tokens,
+    output_tokens_details: { reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens ?? 0 },
+    total_tokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Marks a response finished: completed, or incomplete when max_output_tokens cut it.
+ */
+function finishResponseObject(response: ResponseObject, finishReason: FinishReason | null, usage: OpenAIUsage): void {
+  response.status = finishReason === "length" ? "incomplete" : "completed";
+  response.incomplete_details = finishReason === "length" ? { reason: "max_output_tokens" } : null;
+  response.usage = responsesUsage(usage);
+}
+
+/**
+ * Concatenated output_text of a response (the assistant reply).
+ */
+function responseOutputText(response: ResponseObject): string {
+  return response.output
+    .flatMap((item) => (item.type === "message" ? item.content.map((part) => part.text) : []))
+    .join("");
+}
+
+/**
+ * Handles POST /v1/responses requests (OpenAI Responses API).
+ * Maps input/instructions (plus the stored conversation of
+ * previous_response_id) onto a chat request and returns a response object,
+ * or response.* stream events.
+ */
+async function handleResponses(
+  req: Request,
+  policy: ApiKeyPolicy
+): Promise<Response> {
+  let meter: UsageMeter | undefined;
+  try {
+    let responsesReq: ResponsesRequest;
+    try {
+      responsesReq = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON", 400);
+    }
+
+    // Validate required fields
+    if (!responsesReq.model || (typeof responsesReq.input !== "string" && !Array.isArray(responsesReq.input))) {
+      return errorResponse("Missing required fields: model and input", 400);
+    }
+
+    const tools = responsesWebSearch(responsesReq);
+    if ("error" in tools) {
+      return tools.error;
+    }
+    const input = responsesInputToMessages(responsesReq.input);
+    if ("error" in input) {
+      return input.error;
+    }
+
+    // Continue a stored conversation
+    const history = responsesReq.previous_response_id
+      ? await loadConversation(responsesReq.previous_response_id, policy)
+      : { messages: [] };
+    if ("error" in history) {
+      return history.error;
+    }
+
+    const openaiReq: OpenAIRequest = {
+      model: responsesReq.model,
+      messages: [
+        ...(responsesReq.instructions ? [{ role: "system", content: responsesReq.instructions }] : []),
+        ...history.messages,
+        ...input.messages,
+      ],
+      stream: responsesReq.stream,
+      temperature: responsesReq.temperature,
+      top_p: responsesReq.top_p,
+      max_tokens: responsesReq.max_output_tokens,
+      response_format: responsesFormat(responsesReq),
+      web_search: tools.webSearch || undefined,
+    };
+
+    // Validate max_output_tokens
+    const invalidParams = checkGenerationParams(openaiReq);
+    if (invalidParams) {
+      return invalidParams;
+    }
+
+    // Resolve aliases and routing rules; reject unknown models before going upstream
+    const routing = await resolveModelChain(openaiReq, policy);
+    if ("error" in routing) {
+      return routing.error;
+    }
+    const chain = routing.chain;
+    openaiReq.model = chain[0];
+
+    // Enforce per-key access policy
+    const denied = checkPolicy(policy, openaiReq);
+    if (denied) {
+      return denied;
+    }
+
+    // Validate image parts
+    const invalidContent = checkContentParts(openaiReq);
+    if (invalidContent) {
+      return invalidContent;
+    }
+
+    // Enforce usage quotas
+    const overQuota = await checkQuotas(policy, openaiReq.model);
+    if (overQuota) {
+      return overQuota;
+    }
+
+    meter = startUsageMeter(req, policy, "/v1/responses", openaiReq.model, !!openaiReq.web_search);
+
+    if (responsesReq.stream === true) {
+      // Send request to infiniax API (with cookie pool failover, retries and model fallback)
+      const upstream = await withModelFallback(chain, policy, (model) =>
+        callUpstream(transformRequest({ ...openaiReq, model }), policy)
+      );
+      if ("error" in upstream) {
+        meter.finish(upstream.error.status);
+        return upstream.error;
+      }
+      meter.upstreamResponded();
+      const modelReq = { ...openaiReq, model: meter.model = upstream.model };
+      const promptTokens = countMessageTokens(transformRequest(modelReq).messages, modelReq.model);
+      const response = createResponseObject(responsesReq, modelReq.model);
+      return withModelHeader(
+        handleResponsesStreamingResponse(upstream.value.response, modelReq, response, input.messages, policy, promptTokens, meter),
+        modelReq.model
+      );
+    }
+
+    const choice = await generateChoice(openaiReq, chain, policy);
+    if ("error" in choice) {
+      meter.finish(choice.error.status);
+      return choice.error;
+    }
+    meter.upstreamResponded();
+    const model = meter.model = choice.model;
+    const promptTokens = countMessageTokens(transformRequest({ ...openaiReq, model }).messages, model);
+    const usage = computeUsage(promptTokens, choice.content, model, choice.reasoning);
+
+    const response = createResponseObject(responsesReq, model);
+    if (choice.reasoning) {
+      response.output.push({
+        type: "reasoning",
+        id: generateResponsesId("rs"),
+        summary: [{ type: "summary_text", text: choice.reasoning }],
+      });
+    }
+    response.output.push({
+      type: "message",
+      id: generateResponsesId("msg"),
+      status: "completed",
+      role: "assistant",
+      content: [{ type: "output_text", text: choice.content, annotations: responsesAnnotations(choice.content, choice.sources) }],
+    });
+    finishResponseObject(response, choice.finishReason, usage);
+    if (response.store) {
+      await storeResponse(response, input.messages, policy);
+    }
+
+    meter.finish(200, usage);
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json", "x-infiniax-model": model },
+    });
+  } catch (error) {
+    log("error", "Unexpected error in handleResponses", { request_id: requestContext(req).id, caller: callerId(policy), error });
+    meter?.finish(500);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * Processes streaming response from infiniax and converts to Responses API events:
+ * response.created → response.in_progress → response.output_item.added →
+ * response.content_part.added → response.output_text.delta* →
+ * response.output_text.done → response.content_part.done →
+ * response.output_item.done → response.completed
+ * Reasoning is streamed as a reasoning item (response.reasoning_summary_text.delta)
+ * before the message; citations as response.output_text.annotation.added.
+ */
+function handleResponsesStreamingResponse(
+  upstreamResponse: Response,
+  openaiReq: OpenAIRequest,
+  response: ResponseObject,
+  input: OpenAIMessage[],
+  policy: ApiKeyPolicy,
+  promptTokens: number,
+  meter: UsageMeter
+): Response {
+  const model = openaiReq.model;
+  const encoder = new TextEncoder();
+  const limiter = outputLimiterFor(openaiReq);
+  const sources: UrlCitation[] = [];
+  let fullContent = "";
+  let reasoning = "";
+  let sequence = 0;
+  let started = false;
+  let cut: FinishReason | null = null;
+  // Output item currently being streamed
+  let item: ResponsesOutputItem | null = null;
+
+  const body = upstreamResponse.body;
+  if (!body) {
+    meter.finish(502);
+    return errorResponse("No response body from upstream", 502);
+  }
+
+  const send = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    type: string,
+    data: Record<string, unknown> = {}
+  ) => {
+    controller.enqueue(encoder.encode(
+      `event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: sequence++, ...data })}\n\n`
+    ));
+  };
+
+  const ensureStarted = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    if (started) return;
+    started = true;
+    send(controller, "response.created", { response });
+    send(controller, "response.in_progress", { response });
+  };
+
+  const closeItem = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    if (!item) return;
+    const output_index = response.output.length - 1;
+    if (item.type === "reasoning") {
+      const part = item.summary[0];
+      send(controller, "response.reasoning_summary_text.done", { item_id: item.id, output_index, summary_index: 0, text: part.text });
+      send(controller, "response.reasoning_summary_part.done", { item_id: item.id, output_index, summary_index: 0, part });
+    } else {
+      const part = item.content[0];
+      part.annotations = responsesAnnotations(part.text, sources);
+      part.annotations.forEach((annotation, annotation_index) => {
+        send(controller, "response.output_text.annotation.added", {
+          item_id: item!.id,
+          output_index,
+          content_index: 0,
+          annotation_index,
+          annotation,
+        });
+      });
+      item.status = "completed";
+      send(controller, "response.output_text.done", { item_id: item.id, output_index, content_index: 0, text: part.text });
+      send(controller, "response.content_part.done", { item_id: item.id, output_index, content_index: 0, part });
+    }
+    send(controller, "response.output_item.done", { output_index, item });
+    item = null;
+  };
+
+  // Closes the current output item and starts one of the given type
+  const openItem = (type: "reasoning" | "message", controller: ReadableStreamDefaultController<Uint8Array>) => {
+    ensureStarted(controller);
+    if (item?.type === type) return item;
+    closeItem(controller);
+    const output_index = response.output.length;
+    if (type === "reasoning") {
+      item = { type: "reasoning", id: generateResponsesId("rs"), summary: [] };
+      send(controller, "response.output_item.added", { output_index, item });
+      item.summary.push({ type: "summary_text", text: "" });
+      send(controller, "response.reasoning_summary_part.added", {
+        item_id: item.id,
+        output_index,
+        summary_index: 0,
+        part: item.summary[0],
+      });
+    } else {
+      item = { type: "message", id: generateResponsesId("msg"), status: "in_progress", role: "assistant", content: [] };
+      send(controller, "response.output_item.added", { output_index, item });
+      item.content.push({ type: "output_text", text: "", annotations: [] });
+      send(controller, "response.content_part.added", {
+        item_id: item.id,
+        output_index,
+        content_index: 0,
+        part: item.content[0],
+      });
+    }
+    response.output.push(item);
+    return item;
+  };
+
+  const emitText = (text: string, controller: ReadableStreamDefaultController<Uint8Array>) => {
+    if (!text) return;
+    meter.firstToken();
+    const message = openItem("message", controller);
+    if (message.type !== "message") return;
+    fullContent += text;
+    message.content[0].text += text;
+    send(controller, "response.output_text.delta", {
+      item_id: message.id,
+      output_index: response.output.length - 1,
+      content_index: 0,
+      delta: text,
+    });
+  };
+
+  const fail = (controller: ReadableStreamDefaultController<Uint8Array>, code: string, message: string) => {
+    ensureStarted(controller);
+    response.status = "failed";
+    response.error = { code, message };
+    send(controller, "error", { code, message, param: null });
+    send(controller, "response.failed", { response });
+    meter.finish(502, computeUsage(promptTokens, fullContent, model, reasoning), code);
+  };
+
+  const transformedBody = pipeInfiniaxStream(body, model, {
+    onChunk(content, controller) {
+      const limited = limiter.push(content);
+      emitText(limited.text, controller);
+      cut = limited.finishReason;
+      return cut !== null;
+    },
+    onReasoning(text, controller) {
+      meter.firstToken();
+      const summary = openItem("reasoning", controller);
+      if (summary.type !== "reasoning") return;
+      reasoning += text;
+      summary.summary[0].text += text;
+      send(controller, "response.reasoning_summary_text.delta", {
+        item_id: summary.id,
+        output_index: response.output.length - 1,
+        summary_index: 0,
+        delta: text,
+      });
+    },
+    onSources(found) {
+      mergeSources(sources, found);
+    },
+    async onEnd(controller) {
+      if (cut === null) {
+        const rest = limiter.flush();
+        emitText(rest.text, controller);
+        cut = rest.finishReason;
+      }
+      // Validate JSON output before reporting completion (truncated output is reported as incomplete)
+      if (isJsonMode(openaiReq) && cut !== "length") {
+        const check = checkResponseFormat(fullContent, openaiReq);
+        if ("errors" in check) {
+          fail(controller, "json_validation_failed", `Model output does not match text.format: ${check.errors.join("; ")}`);
+          return;
+        }
+      }
+
+      // Always end with a message item
+      openItem("message", controller);
+      closeItem(controller);
+      const usage = computeUsage(promptTokens, fullContent, model, reasoning);
+      finishResponseObject(response, cut, usage);
+      meter.finish(200, usage);
+      // Stored before completion is reported, so the id can be continued right away
+      if (response.store) {
+        await storeResponse(response, input, policy);
+      }
+      send(controller, response.status === "incomplete" ? "response.incomplete" : "response.completed", { response });
+    },
+    onError(message, controller) {
+      fail(controller, "upstream_stream_error", message);
+    },
+    onCancel() {
+      meter.finish(499, computeUsage(promptTokens, fullContent, model, reasoning), "client_disconnected");
+    },
+  });
+
+  return new Response(transformedBody, {
+    status: 200,
+    headers: SSE_HEADERS,
+  });
+}
+
+/**
+ * Handles GET /v1/responses/{id}: returns a stored response.
+ */
+async function handleGetResponse(policy: ApiKeyPolicy, id: string): Promise<Response> {
+  const entry = await getStoredResponse(id, policy);
+  if (!entry) {
+    return errorResponse(`Response with id '${id}' not found.`, 404, "response_not_found");
+  }
+  return new Response(JSON.stringify(entry.response), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Handles DELETE /v1/responses/{id}: deletes a stored response. Responses
+ * continued from it can no longer be continued themselves.
+ */
+async function handleDeleteResponse(policy: ApiKeyPolicy, id: string): Promise<Response> {
+  const entry = await getStoredResponse(id, policy);
+  if (!entry || !(await (await getResponseStore()).delete(id))) {
+    return errorResponse(`Response with id '${id}' not found.`, 404, "response_not_found");
+  }
+  return new Response(JSON.stringify({ id, object: "response", deleted: true }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// ============================================================================
+// Thread Store (/v1/threads state)
+// ============================================================================
+
+interface Thread {
+  id: string;
+  object: "thread";
+  created_at: number;
+  metadata: Record<string, string>;
+}
+
+interface ThreadMessage extends OpenAIMessage {
+  id: string;
+  object: "thread.message";
+  created_at: number;
+  thread_id: string;
+}
+
+/**
+ * A stored thread.
+ * - owner: hash of the API key that created it (other keys cannot use it)
+ * - summary / summarized: summary of the first `summarized` messages, which
+ *   replaces them when the thread no longer fits the context window
+ */
+interface StoredThread {
+  owner: string;
+  thread: Thread;
+  summary: string | null;
+  summarized: number;
+}
+
+/**
+ * Thread store backend. Messages are stored apart from the thread, so a
+ * thread can grow past the KV value size limit.
+ */
+interface ThreadStore {
+  kind: "memory" | "kv";
+  get(id: string): Promise<StoredThread | null>;
+  save(entry: StoredThread): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  // Returns false when a message is too large to store
+  addMessages(threadId: string, messages: ThreadMessage[]): Promise<boolean>;
+  listMessages(threadId: string): Promise<ThreadMessage[]>;
+}
+
+// Maximum threads kept by the in-memory store (oldest are dropped)
+const MEMORY_THREADS_LIMIT = 1000;
+
+/**
+ * In-memory store (local development; lost on restart).
+ */
+function createMemoryThreadStore(): ThreadStore {
+  const threads = new Map<string, { entry: StoredThread; messages: ThreadMessage[] }>();
+  return {
+    kind: "memory",
+    get(id) {
+      return Promise.resolve(threads.get(id)?.entry ?? null);
+    },
+    save(entry) {
+      const existing = threads.get(entry.thread.id);
+      threads.set(entry.thread.id, { entry, messages: existing?.messages ?? [] });
+      while (threads.size > MEMORY_THREADS_LIMIT) {
+        threads.delete(threads.keys().next().value!);
+      }
+      return Promise.resolve();
+    },
+    delete(id) {
+      return Promise.resolve(threads.delete(id));
+    },
+    addMessages(threadId, messages) {
+      threads.get(threadId)?.messages.push(...messages);
+      return Promise.resolve(true);
+    },
+    listMessages(threadId) {
+      return Promise.resolve([...threads.get(threadId)?.messages ?? []]);
+    },
+  };
+}
+
+/**
+ * Deno KV store (Deno Deploy): one entry per thread and one per message,
+ * keyed by the time-ordered message id.
+ */
+function createKvThreadStore(kv: Deno.Kv): ThreadStore {
+  return {
+    kind: "kv",
+    async get(id) {
+      return (await kv.get<StoredThread>(["threads", id])).value;
+    },
+    async save(entry) {
+      await kv.set(["threads", entry.thread.id], entry);
+    },
+    async delete(id) {
+      if (!(await kv.get(["threads", id])).value) {
+        return false;
+      }
+      await kv.delete(["threads", id]);
+      for await (const message of kv.list({ prefix: ["thread_messages", id] })) {
+        await kv.delete(message.key);
+      }
+      return true;
+    },
+    async addMessages(threadId, messages) {
+      const encoder = new TextEncoder();
+      if (messages.some((message) => encoder.encode(JSON.stringify(message)).length > KV_MAX_VALUE_BYTES)) {
+        return false;
+      }
+      const op = kv.atomic();
+      for (const message of messages) {
+        op.set(["thread_messages", threadId, message.id], message);
+      }
+      await op.commit();
+      return true;
+    },
+    async listMessages(threadId) {
+      const messages: ThreadMessage[] = [];
+      for await (const entry of kv.list<ThreadMessage>({ prefix: ["thread_messages", threadId] })) {
+        messages.push(entry.value);
+      }
+      return messages;
+    },
+  };
+}
+
+let threadStorePromise: Promise<ThreadStore> | null = null;
+
+/**
+ * Returns the thread store (created on first use).
+ * THREAD_STORE: "kv" | "memory"; defaults to "kv" on Deno Deploy, "memory" elsewhere.
+ * Falls back to memory if KV cannot be opened.
+ */
+function getThreadStore(): Promise<ThreadStore> {
+  if (!threadStorePromise) {
+    threadStorePromise = (async () => {
+      const kind = THREAD_STORE || (Deno.env.get("DENO_DEPLOYMENT_ID") ? "kv" : "memory");
+      if (kind === "kv") {
+        try {
+          return createKvThreadStore(await Deno.openKv());
+        } catch (error) {
+          log("error", "Cannot open kv thread store, falling back to memory", { error });
+        }
+      }
+      return createMemoryThreadStore();
+    })();
+  }
+  return threadStorePromise;
+}
+
+/**
+ * Loads a thread owned by the caller (null if missing or foreign).
+ */
+async function getThread(id: string, policy: ApiKeyPolicy): Promise<StoredThread | null> {
+  const entry = await (await getThreadStore()).get(id);
+  return entry && entry.owner === await ownerId(policy) ? entry : null;
+}
+
+function threadNotFound(id: string): Response {
+  return errorResponse(`No thread found with id '${id}'.`, 404, "thread_not_found");
+}
+
+let threadMessageSeq = 0;
+
+/**
+ * Generates a time-ordered message id, so listing by id keeps message order.
+ */
+function generateThreadMessageId(): string {
+  const time = Date.now().toString(36).padStart(9, "0");
+  const seq = (threadMessageSeq++ % 1296).toString(36).padStart(2, "0");
+  return `msg_${time}${seq}${crypto.randomUUID().replace(/-/g, "").slice(0, 12)}`;
+}
+
+function toThreadMessage(threadId: string, message: OpenAIMessage): ThreadMessage {
+  return {
+    id: generateThreadMessageId(),
+    object: "thread.message",
+    created_at: Math.floor(Date.now() / 1000),
+    thread_id: threadId,
+    role: message.role,
+    content: message.content ?? null,
+    ...(message.name ? { name: message.name } : {}),
+    ...(message.tool_calls?.length ? { tool_calls: message.tool_calls } : {}),
+    ...(message.tool_call_id ? { tool_call_id: message.tool_call_id } : {}),
+  };
+}
+
+/**
+ * Strips thread bookkeeping fields, leaving a chat message.
+ */
+function fromThreadMessage({ role, content, name, tool_calls, tool_call_id }: ThreadMessage): OpenAIMessage {
+  return {
+    role,
+    content,
+    ...(name ? { name } : {}),
+    ...(tool_calls ? { tool_calls } : {}),
+    ...(tool_call_id ? { tool_call_id } : {}),
+  };
+}
+
+/**
+ * Validates messages added to a thread.
+ */
+function checkThreadMessages(messages: unknown): Response | null {
+  if (!Array.isArray(messages)) {
+    return errorResponse("messages must be an array", 400, "invalid_value");
+  }
+  for (const message of messages as OpenAIMessage[]) {
+    if (!["system", "user", "assistant", "tool"].includes(message?.role)) {
+      return errorResponse(`Invalid message role: ${message?.role}`, 400, "invalid_value");
+    }
+    if (typeof message.content !== "string" && !Array.isArray(message.content) && !message.tool_calls?.length) {
+      return errorResponse("Message content must be a string or an array of content parts", 400, "invalid_value");
+    }
+  }
+  return null;
+}
+
+/**
+ * Appends messages to a thread; returns an error response if they cannot be stored.
+ */
+async function appendThreadMessages(threadId: string, messages: OpenAIMessage[]): Promise<ThreadMessage[] | Response> {
+  const threadMessages = messages.map((message) => toThreadMessage(threadId, message));
+  if (!(await (await getThreadStore()).addMessages(threadId, threadMessages))) {
+    return errorResponse(`Message is too large to store (limit ${KV_MAX_VALUE_BYTES / 1024} KiB)`, 400, "invalid_value");
+  }
+  return threadMessages;
+}
+
+// ============================================================================
+// Context Window Management
+// ============================================================================
+
+// Output tokens reserved when the request sets no max_tokens
+const DEFAULT_OUTPUT_RESERVE = 4096;
+const SUMMARY_PREFIX = "Summary of the earlier conversation:\n";
+
+/**
+ * A chat request being assembled from a thread.
+ * - input: the request's new messages, appended to the thread on success
+ * - dropped: older messages left out to fit the context window
+ */
+interface ThreadTurn {
+  entry: StoredThread;
+  input: OpenAIMessage[];
+  dropped: number;
+}
+
+/**
+ * Prompt token budget for a request: the model's context window (capped by
+ * THREAD_MAX_CONTEXT_TOKENS) minus the tokens reserved for the answer.
+ */
+function contextBudget(openaiReq: OpenAIRequest): { window: number; budget: number } {
+  const modelWindow = getModel(openaiReq.model)?.context_window ?? contextWindowFor(openaiReq.model);
+  const limit = config.thread_max_context_tokens;
+  const window = limit > 0 ? Math.min(modelWindow, limit) : modelWindow;
+  const reserve = maxOutputTokens(openaiReq) ?? Math.min(DEFAULT_OUTPUT_RESERVE, Math.floor(window / 4));
+  return { window, budget: window - reserve };
+}
+
+/**
+ * Estimated prompt tokens of the request with the given messages (including
+ * injected tool and formatting prompts).
+ */
+function promptTokensFor(openaiReq: OpenAIRequest, messages: OpenAIMessage[]): number {
+  return countMessageTokens(transformRequest({ ...openaiReq, messages }).messages, openaiReq.model);
+}
+
+/**
+ * Estimated tokens one message adds to the prompt.
+ */
+function messageTokens(message: OpenAIMessage, model: string): number {
+  return countMessageTokens(foldToolMessages([message], supportsImages(model)), model) - TOKENS_PER_REPLY;
+}
+
+/**
+ * Number of messages, counted from the end, that fit in the token budget.
+ */
+function fitFromEnd(messages: OpenAIMessage[], budget: number, model: string): number {
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    used += messageTokens(messages[i], model);
+    if (used > budget) {
+      return messages.length - 1 - i;
+    }
+  }
+  return messages.length;
+}
+
+/**
+ * Summarizes older messages (and the previous summary) with the cheap
+ * THREAD_SUMMARY_MODEL. The call is charged to the caller's quotas and
+ * recorded as its own /v1/threads usage entry. Returns null if the model is
+ * unavailable, over quota or fails.
+ */
+async function summarizeMessages(
+  summary: string | null,
+  messages: OpenAIMessage[],
+  policy: ApiKeyPolicy
+): Promise<string | null> {
+  const model = getModel(config.thread_summary_model)?.id;
+  if (!model) {
+    log("error", "Thread summary model is not available", { model: config.thread_summary_model });
+    return null;
+  }
+
+  const overQuota = await checkQuotas(policy, model);
+  if (overQuota) {
+    await overQuota.body?.cancel();
+    log("warn", "Thread summary skipped, caller is over quota", { caller: callerId(policy), model });
+    return null;
+  }
+
+  const transcript = foldToolMessages(messages, false).map((msg) => `${msg.role}: ${msg.content}`).join("\n\n");
+  const infiniaxReq = transformRequest({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: "Summarize the conversation below so it can replace it as context for later turns. " +
+          "Keep facts, decisions, names, numbers, code identifiers and open questions. Reply with the summary only.",
+      },
+      {
+        role: "user",
+        content: (summary ? `Summary of the conversation so far:\n${summary}\n\n` : "") + `Conversation:\n${transcript}`,
+      },
+    ],
+  });
+  // A detached request, so the summary is metered apart from the caller's own request
+  const detached = new Request("http://localhost/v1/threads", { method: "POST" });
+  const meter = startUsageMeter(detached, policy, "/v1/threads", model, false);
+  const completion = await fetchCompletion(infiniaxReq, policy);
+  if ("error" in completion) {
+    meter.finish(completion.error.status);
+    log("error", "Thread summary failed", { caller: callerId(policy), status: completion.error.status });
+    return null;
+  }
+  meter.upstreamResponded();
+  const { content, reasoning } = completion.result;
+  meter.finish(200, computeUsage(countMessageTokens(infiniaxReq.messages, model), content, model, reasoning));
+  return content.trim() || null;
+}
+
+/**
+ * Assembles the messages sent upstream for a thread request:
+ * pinned system messages, the summary of older turns, as many recent turns as
+ * fit the context window, then the new messages. With
+ * THREAD_CONTEXT_STRATEGY=summarize, turns that no longer fit are summarized
+ * (the summary is stored with the thread); otherwise they are left out.
+ */
+async function prepareThreadRequest(
+  openaiReq: OpenAIRequest,
+  policy: ApiKeyPolicy
+): Promise<ThreadTurn | { error: Response }> {
+  const entry = await getThread(openaiReq.thread_id!, policy);
+  if (!entry) {
+    return { error: threadNotFound(openaiReq.thread_id!) };
+  }
+  const history = (await (await getThreadStore()).listMessages(entry.thread.id)).map(fromThreadMessage);
+
+  // System messages are pinned; skip new ones the thread already has
+  const pinned = history.filter((msg) => msg.role === "system");
+  const input = openaiReq.messages.filter((msg) =>
+    msg.role !== "system" || !pinned.some((p) => JSON.stringify(p.content) === JSON.stringify(msg.content))
+  );
+  // Turns after the summary, with their index in the history
+  let turns = history
+    .map((message, index) => ({ message, index }))
+    .filter(({ message, index }) => index >= entry.summarized && message.role !== "system");
+
+  const { window, budget } = contextBudget(openaiReq);
+  const assemble = (kept: OpenAIMessage[]) => [
+    ...pinned,
+    ...(entry.summary ? [{ role: "system", content: SUMMARY_PREFIX + entry.summary }] : []),
+    ...kept,
+    ...input,
+  ];
+  // Tokens left for earlier turns after system messages, summary and new messages
+  const free = () => budget - promptTokensFor(openaiReq, assemble([]));
+  const required = budget - free();
+  if (required > budget) {
+    return {
+      error: errorResponse(
+        `The thread's system messages and the new messages need about ${required} tokens, which does not fit the ${window} token context window of ${openaiReq.model} (with room for the answer)`,
+        400,
+        "context_length_exceeded"
+      ),
+    };
+  }
+
+  let keep = fitFromEnd(turns.map((t) => t.message), free(), openaiReq.model);
+  if (keep < turns.length && config.thread_context_strategy === "summarize") {
+    // Keep at most half the budget verbatim, so the summary is not redone every turn
+    const verbatim = fitFromEnd(turns.map((t) => t.message), Math.floor(free() / 2), openaiReq.model);
+    const older = turns.slice(0, turns.length - verbatim);
+    const summary = older.length ? await summarizeMessages(entry.summary, older.map((t) => t.message), policy) : null;
+    if (summary) {
+      entry.summary = summary;
+      entry.summarized = older[older.length - 1].index + 1;
+      await (await getThreadStore()).save(entry);
+      turns = turns.slice(older.length);
+      // A long summary may itself leave less room
+      keep = fitFromEnd(turns.map((t) => t.message), Math.max(free(), 0), openaiReq.model);
+    }
+  }
+
+  openaiReq.messages = assemble(turns.slice(turns.length - keep).map((t) => t.message));
+  return { entry, input, dropped: turns.length - keep };
+}
+
+/**
+ * Appends a completed turn to the thread: the request's new messages and the
+ * assistant reply (emulated tool calls become tool_calls).
+ */
+async function appendThreadTurn(turn: ThreadTurn, choice: GeneratedChoice, openaiReq: OpenAIRequest): Promise<void> {
+  const { content, toolCalls } = hasToolEmulation(openaiReq)
+    ? extractToolCalls(choice.content)
+    : { content: choice.content, toolCalls: [] };
+  const reply: OpenAIMessage = toolCalls.length
+    ? { role: "assistant", content, tool_calls: toolCalls }
+    : { role: "assistant", content };
+  try {
+    const added = await appendThreadMessages(turn.entry.thread.id, [...turn.input, reply]);
+    if (added instanceof Response) {
+      log("error", "Thread turn is too large to store", { thread_id: turn.entry.thread.id });
+    }
+  } catch (error) {
+    log("error", "Error appending to thread", { thread_id: turn.entry.thread.id, error });
+  }
+}
+
+function withThreadHeaders(response: Response, turn: ThreadTurn | null): Response {
+  if (turn) {
+    response.headers.set("x-thread-messages-dropped", String(turn.dropped));
+  }
+  return response;
+}
+
+// ============================================================================
+// Threads Handler
+// ============================================================================
+
+/**
+ * Returns a thread API object as a 200 JSON response.
+ */
+function threadResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Handles POST /v1/threads: creates a thread, optionally with initial messages.
+ */
+async function handleCreateThread(req: Request, policy: ApiKeyPolicy): Promise<Response> {
+  let body: { messages?: OpenAIMessage[]; metadata?: Record<string, string> };
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse("Invalid JSON", 400);
+  }
+  const messages = body.messages ?? [];
+  const invalid = checkThreadMessages(messages);
+  if (invalid) {
+    return invalid;
+  }
+
+  const thread: Thread = {
+    id: generateResponsesId("thread"),
+    object: "thread",
+    created_at: Math.floor(Date.now() / 1000),
+    metadata: body.metadata ?? {},
+  };
+  await (await getThreadStore()).save({ owner: await ownerId(policy), thread, summary: null, summarized: 0 });
+  if (messages.length) {
+    const added = await appendThreadMessages(thread.id, messages);
+    if (added instanceof Response) {
+      await (await getThreadStore()).delete(thread.id);
+      return added;
+    }
+  }
+  return threadResponse(thread);
+}
+
+/**
+ * Routes /v1/threads/{id} and /v1/threads/{id}/messages requests:
+ * - GET / DELETE /v1/threads/{id}
+ * - GET /v1/threads/{id}/messages: all messages, oldest first
+ * - POST /v1/threads/{id}/messages: appends one message ({role, content}) without generating a reply
+ */
+async function handleThread(req: Request, policy: ApiKeyPolicy, path: string, method: string): Promise<Response> {
+  const parsed = pathSegments(path, "/v1/threads/");
+  if ("error" in parsed) {
+    return parsed.error;
+  }
+  const [id, sub] = parsed.segments;
+  const entry = await getThread(id, policy);
+  if (!entry) {
+    return threadNotFound(id);
+  }
+  const store = await getThreadStore();
+
+  if (sub === undefined && method === "GET") {
+    return threadResponse({ ...entry.thread, summarized_messages: entry.summarized });
+  }
+  if (sub === undefined && method === "DELETE") {
+    await store.delete(id);
+    return threadResponse({ id, object: "thread.deleted", deleted: true });
+  }
+  if (sub === "messages" && method === "GET") {
+    const messages = await store.listMessages(id);
+    return threadResponse({
+      object: "list",
+      data: messages,
+      first_id: messages[0]?.id ?? null,
+      last_id: messages[messages.length - 1]?.id ?? null,
+      has_more: false,
+    });
+  }
+  if (sub === "messages" && method === "POST") {
+    let message: OpenAIMessage;
+    try {
+      message = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON", 400);
+    }
+    const invalid = checkThreadMessages([message]);
+    if (invalid) {
+      return invalid;
+    }
+    const added = await appendThreadMessages(id, [message]);
+    return added instanceof Response ? added : threadResponse(added[0]);
+  }
+  return errorResponse("Not Found", 404);
+}
+
+// ============================================================================
+// Embedding Models
+// ============================================================================
+
+/**
+ * Output of an embedding provider: one vector per input, in input order,
+ * and the number of tokens read.
+ */
+export interface EmbeddingResult {
+  vectors: Float32Array[];
+  tokens: number;
+}
+
+/**
+ * Computes embeddings in-process (infiniax only serves chat). The built-in
+ * provider runs a static embedding model loaded from EMBEDDING_MODEL_PATH;
+ * others can be plugged in with registerEmbeddingProvider.
+ */
+export interface EmbeddingProvider {
+  // Model id used in requests and listed by /v1/models
+  id: string;
+  owned_by?: string;
+  embed(inputs: string[]): Promise<EmbeddingResult>;
+}
+
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+/**
+ * Adds (or replaces) an embedding model served by /v1/embeddings.
+ */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProviders.set(provider.id, provider);
+}
+
+// Longest input embedded, in tokens (the rest is ignored, as in Model2Vec)
+const EMBEDDING_MAX_TOKENS = 512;
+
+/**
+ * A WordPiece tokenizer read from a Hugging Face tokenizer.json.
+ */
+interface WordPieceTokenizer {
+  vocab: Map<string, number>;
+  unkId: number | undefined;
+  prefix: string;
+  maxWordChars: number;
+  lowercase: boolean;
+  stripAccents: boolean;
+}
+
+/**
+ * A static embedding model (Model2Vec format): one vector per vocabulary
+ * token; a text is embedded as the mean of its token vectors.
+ */
+interface StaticEmbeddingModel {
+  tokenizer: WordPieceTokenizer;
+  weights: Float32Array; // rows × dimensions, row-major
+  rows: number;
+  dimensions: number;
+}
+
+/**
+ * Converts an IEEE 754 half-precision value to a number.
+ */
+function halfToFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Reads a 2-D tensor from a .safetensors file: an 8-byte little-endian
+ * header length, a JSON header, then the raw tensor data. Uses the tensor
+ * called `name`, or the only tensor in the file. F32, F16 and BF16 are
+ * converted to Float32Array.
+ */
+function readSafetensor(bytes: Uint8Array, name: string): { data: Float32Array; shape: number[] } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerLength = Number(view.getBigUint64(0, true));
+  const header = JSON.parse(new TextDecoder().decode(bytes.subarray(8, 8 + headerLength)));
+  const tensors = Object.keys(header).filter((key) => key !== "__metadata__");
+  const key = header[name] ? name : tensors.length === 1 ? tensors[0] : null;
+  if (!key) {
+    throw new Error(`tensor '${name}' not found (tensors: ${tensors.join(", ")})`);
+  }
+
+  const { dtype, shape, data_offsets: [start, end] } = header[key];
+  if (!Array.isArray(shape) || shape.length !== 2) {
+    throw new Error(`tensor '${key}' must be 2-dimensional`);
+  }
+  const offset = 8 + headerLength + start;
+  const count = shape[0] * shape[1];
+  const data = new Float32Array(count);
+
+  if (dtype === "F32" && end - start === count * 4) {
+    for (let i = 0; i < count; i++) data[i] = view.getFloat32(offset + i * 4, true);
+  } else if (dtype === "F16" && end - start === count * 2) {
+    for (let i = 0; i < count; i++) data[i] = halfToFloat(view.getUint16(offset + i * 2, true));
+  } else if (dtype === "BF16" && end - start === count * 2) {
+    const word = new DataView(new ArrayBuffer(4));
+    for (let i = 0; i < count; i++) {
+      word.setUint32(0, view.getUint16(offset + i * 2, true) << 16);
+      data[i] = word.getFloat32(0);
+    }
+  } else {
+    throw new Error(`unsupported tensor dtype ${dtype} for '${key}'`);
+  }
+  return { data, shape };
+}
+
+/**
+ * Builds a WordPiece tokenizer from a parsed tokenizer.json. The BERT
+ * normalizer settings (lowercase, strip_accents) are honored; other
+ * tokenizer types (BPE, Unigram) are not supported.
+ */
+function parseWordPieceTokenizer(json: Record<string, unknown>): WordPieceTokenizer {
+  const model = json.model as Record<string, unknown> | undefined;
+  if (model?.type !== "WordPiece" || !model.vocab || typeof model.vocab !== "object") {
+    throw new Error(`unsupported tokenizer type ${model?.type}, expected WordPiece`);
+  }
+
+  const vocab = new Map(Object.entries(model.vocab as Record<string, number>));
+  const normalizer = json.normalizer as Record<string, unknown> | null | undefined;
+  const bert = normalizer?.type === "BertNormalizer";
+  const lowercase = bert && normalizer.lowercase !== false;
+  return {
+    vocab,
+    unkId: vocab.get(String(model.unk_token ?? "[UNK]")),
+    prefix: String(model.continuing_subword_prefix ?? "##"),
+    maxWordChars: Number(model.max_input_chars_per_word) || 100,
+    lowercase,
+    stripAccents: bert && (normalizer.strip_accents ?? lowercase) === true,
+  };
+}
+
+/**
+ * Returns true for CJK ideographs, which BERT tokenizes one character at a time.
+ */
+function isCjkChar(cp: number): boolean {
+  return (cp >= 0x4e00 && cp <= 0x9fff) || (cp >= 0x3400 && cp <= 0x4dbf) ||
+    (cp >= 0x20000 && cp <= 0x2a6df) || (cp >= 0x2a700 && cp <= 0x2ceaf) ||
+    (cp >= 0xf900 && cp <= 0xfaff) || (cp >= 0x2f800 && cp <= 0x2fa1f);
+}
+
+// BERT word splitting: runs of non-space, non-punctuation characters, or
+// single punctuation characters (Unicode P* and ASCII symbols)
+const BERT_WORD = /[\p{P}!-/:-@[-`{-~]|[^\s\p{P}!-/:-@[-`{-~]+/gu;
+
+/**
+ * Tokenizes text into vocabulary ids: BERT normalization and
+ * pre-tokenization, then greedy longest-match-first WordPiece.
+ * A word that cannot be split into vocabulary pieces becomes [UNK].
+ */
+function tokenizeWordPiece(tokenizer: WordPieceTokenizer, text: string): number[] {
+  let normalized = "";
+  for (const char of text) {
+    const cp = char.codePointAt(0)!;
+    if (cp === 0 || cp === 0xfffd || (/\p{C}/u.test(char) && !/[\t\n\r]/.test(char))) continue;
+    normalized += /\s/u.test(char) ? " " : isCjkChar(cp) ? ` ${char} ` : char;
+  }
+  if (tokenizer.lowercase) normalized = normalized.toLowerCase();
+  if (tokenizer.stripAccents) normalized = normalized.normalize("NFD").replace(/\p{Mn}/gu, "");
+
+  const ids: number[] = [];
+  for (const word of normalized.match(BERT_WORD) ?? []) {
+    const chars = [...word];
+    const pieces: number[] = [];
+    let start = 0;
+    while (chars.length <= tokenizer.maxWordChars && start < chars.length) {
+      let end = chars.length;
+      let id: number | undefined;
+      while (start < end) {
+        id = tokenizer.vocab.get((start > 0 ? tokenizer.prefix : "") + chars.slice(start, end).join(""));
+        if (id !== undefined) break;
+        end--;
+      }
+      if (id === undefined) break;
+      pieces.push(id);
+      start = end;
+    }
+
+    if (start === chars.length) {
+      ids.push(...pieces);
+    } else if (tokenizer.unkId !== undefined) {
+      ids.push(tokenizer.unkId);
+    }
+    if (ids.length >= EMBEDDING_MAX_TOKENS) break;
+  }
+  return ids.slice(0, EMBEDDING_MAX_TOKENS);
+}
+
+/**
+ * Loads a Model2Vec model directory: model.safetensors (the "embeddings"
+ * tensor, one row per token id) and tokenizer.json.
+ */
+async function loadStaticEmbeddingModel(dir: string): Promise<StaticEmbeddingModel> {
+  const base = dir.replace(/\/+$/, "");
+  const [weightsFile, tokenizerFile] = await Promise.all([
+    Deno.readFile(`${base}/model.safetensors`),
+    Deno.readTextFile(`${base}/tokenizer.json`),
+  ]);
+  const { data, shape } = readSafetensor(weightsFile, "embeddings");
+  return {
+    tokenizer: parseWordPieceTokenizer(JSON.parse(tokenizerFile)),
+    weights: data,
+    rows: shape[0],
+    dimensions: shape[1],
+  };
+}
+
+/**
+ * Embeds one text with a static model: the mean of its token vectors
+ * ([UNK] excluded), or a zero vector when no token is known.
+ */
+function embedStatic(model: StaticEmbeddingModel, ids: number[]): Float32Array {
+  const vector = new Float32Array(model.dimensions);
+  let count = 0;
+  for (const id of ids) {
+    if (id === model.tokenizer.unkId || id >= model.rows) continue;
+    const row = id * model.dimensions;
+    for (let d = 0; d < model.dimensions; d++) vector[d] += model.weights[row + d];
+    count++;
+  }
+  if (count > 0) {
+    for (let d = 0; d < model.dimensions; d++) vector[d] /= count;
+  }
+  return vector;
+}
+
+/**
+ * The built-in provider: a static embedding model read from disk on first
+ * use. A failed load is retried on the next request.
+ */
+function createStaticEmbeddingProvider(id: string, dir: string): EmbeddingProvider {
+  let loading: Promise<StaticEmbeddingModel> | null = null;
+
+  return {
+    id,
+    owned_by: "local",
+    async embed(inputs) {
+      loading ??= loadStaticEmbeddingModel(dir).catch((error) => {
+        loading = null;
+        throw error;
+      });
+      const model = await loading;
+
+      let tokens = 0;
+      const vectors = inputs.map((input) => {
+        const ids = tokenizeWordPiece(model.tokenizer, input);
+        tokens += ids.length;
+        return embedStatic(model, ids);
+      });
+      return { vectors, tokens };
+    },
+  };
+}
+
+if (EMBEDDING_MODEL_PATH) {
+  const name = EMBEDDING_MODEL_PATH.replace(/\/+$/, "").split("/").pop() || "embedding";
+  registerEmbeddingProvider(createStaticEmbeddingProvider(EMBEDDING_MODEL || `local/${name}`, EMBEDDING_MODEL_PATH));
+}
+
+// ============================================================================
+// Embeddings Handler
+// ============================================================================
+
+/**
+ * OpenAI embeddings request (POST /v1/embeddings).
+ */
+interface EmbeddingsRequest {
+  model: string;
+  input: string | string[];
+  encoding_format?: "float" | "base64";
+  dimensions?: number;
+  user?: string;
+}
+
+// Most inputs accepted in one request (as in the OpenAI API)
+const MAX_EMBEDDING_INPUTS = 2048;
+
+/**
+ * Shortens a vector to `dimensions` and scales it to unit length, so the
+ * dot product of two embeddings is their cosine similarity.
+ */
+function finishEmbedding(vector: Float32Array, dimensions: number): Float32Array {
+  const out = vector.slice(0, dimensions);
+  const norm = Math.hypot(...out);
+  if (norm > 0) {
+    for (let i = 0; i < out.length; i++) out[i] /= norm;
+  }
+  return out;
+}
+
+/**
+ * Encodes a vector as base64 little-endian float32 (encoding_format: "base64").
+ */
+function embeddingToBase64(vector: Float32Array): string {
+  const bytes = new Uint8Array(vector.length * 4);
+  const view = new DataView(bytes.buffer);
+  vector.forEach((value, i) => view.setFloat32(i * 4, value, true));
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Handles POST /v1/embeddings requests.
+ * input is a string or an array of strings; vectors are computed by the
+ * registered embedding provider for the model, never by infiniax.
+ * usage reports the tokens read by the model's tokenizer.
+ */
+async function handleEmbeddings(req: Request, policy: ApiKeyPolicy): Promise<Response> {
+  let meter: UsageMeter | undefined;
+  try {
+    let embeddingsReq: EmbeddingsRequest;
+    try {
+      embeddingsReq = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON", 400);
+    }
+
+    if (!embeddingsReq.model || embeddingsReq.input === undefined) {
+      return errorResponse("Missing required fields: model and input", 400);
+    }
+
+    const input = embeddingsReq.input;
+    const inputs = typeof input === "string" ? [input] : input;
+    if (!Array.isArray(inputs) || !inputs.every((item) => typeof item === "string")) {
+      return errorResponse("input must be a string or an array of strings (token arrays are not supported)", 400, "invalid_value");
+    }
+    if (inputs.length === 0 || inputs.length > MAX_EMBEDDING_INPUTS) {
+      return errorResponse(`input must contain between 1 and ${MAX_EMBEDDING_INPUTS} items`, 400, "invalid_value");
+    }
+    if (inputs.some((item) => item === "")) {
+      return errorResponse("input must not contain empty strings", 400, "invalid_value");
+    }
+
+    const format = embeddingsReq.encoding_format ?? "float";
+    if (format !== "float" && format !== "base64") {
+      return errorResponse("encoding_format must be 'float' or 'base64'", 400, "invalid_value");
+    }
+    const dimensions = embeddingsReq.dimensions;
+    if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions < 1)) {
+      return errorResponse("dimensions must be a positive integer", 400, "invalid_value");
+    }
+
+    // Only explicit aliases apply, e.g. {"text-embedding-3-small":"local/potion-base-8M"}
+    const model = modelAliases[embeddingsReq.model] ?? embeddingsReq.model;
+    const provider = embeddingProviders.get(model);
+    if (!provider) {
+      return modelNotFound(embeddingsReq.model);
+    }
+
+    const denied = checkPolicy(policy, { model, messages: [] });
+    if (denied) {
+      return denied;
+    }
+    const overQuota = await checkQuotas(policy, model);
+    if (overQuota) {
+      return overQuota;
+    }
+
+    meter = startUsageMeter(req, policy, "/v1/embeddings", model, false);
+
+    let result: EmbeddingResult;
+    try {
+      result = await provider.embed(inputs);
+    } catch (error) {
+      log("error", "Embedding failed", { request_id: meter.requestId, model, error });
+      meter.finish(503);
+      return errorResponse(`The embedding model '${model}' is unavailable`, 503, "model_unavailable");
+    }
+    meter.upstreamResponded();
+
+    const size = result.vectors[0]?.length ?? 0;
+    if (dimensions !== undefined && dimensions > size) {
+      meter.finish(400);
+      return errorResponse(`dimensions must be at most ${size} for model '${model}'`, 400, "invalid_value");
+    }
+
+    const usage = { prompt_tokens: result.tokens, completion_tokens: 0, total_tokens: result.tokens };
+    meter.finish(200, usage);
+
+    return new Response(JSON.stringify({
+      object: "list",
+      data: result.vectors.map((vector, index) => {
+        const embedding = finishEmbedding(vector, dimensions ?? size);
+        return {
+          object: "embedding",
+          index,
+          embedding: format === "base64" ? embeddingToBase64(embedding) : Array.from(embedding),
+        };
+      }),
+      model,
+      usage: { prompt_tokens: usage.prompt_tokens, total_tokens: usage.total_tokens },
+    }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    log("error", "Unexpected error in handleEmbeddings", { request_id: requestContext(req).id, caller: callerId(policy), error });
+    meter?.finish(500);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// ============================================================================
+// File & Batch Store (/v1/files, /v1/batches state)
+// ============================================================================
+
+// Largest file accepted by POST /v1/files
+const MAX_FILE_BYTES = 50 * 1024 * 1024;
+// Largest upload body read: the file plus multipart framing and the purpose field
+const MAX_UPLOAD_BYTES = MAX_FILE_BYTES + 64 * 1024;
+// Most requests in one batch input file
+const MAX_BATCH_REQUESTS = 50000;
+// Validation errors kept on a failed batch
+const MAX_BATCH_ERRORS = 100;
+// Files (batch inputs and results) and batches expire after 30 days
+const FILE_TTL_MS = 30 * 24 * 3600 * 1000;
+// The only completion window (as in the OpenAI API)
+const BATCH_WINDOW_MS = 24 * 3600 * 1000;
+// A running batch without progress for this long is resumed by the next GET
+const BATCH_STALE_MS = 5 * 60 * 1000;
+// Endpoints a batch can target
+const BATCH_ENDPOINTS = ["/v1/chat/completions", "/v1/completions", "/v1/embeddings", "/v1/responses"];
+
+/**
+ * A stored file; owner is the hash of the API key that uploaded it.
+ */
+interface StoredFile {
+  owner: string;
+  file: FileObject;
+}
+
+/**
+ * A stored batch.
+ * - heartbeat: when its runner last saved progress (ms), to detect stalled batches
+ */
+interface StoredBatch {
+  owner: string;
+  batch: BatchObject;
+  heartbeat: number;
+}
+
+/**
+ * One line of a batch output or error file.
+ */
+interface BatchResult {
+  id: string;
+  custom_id: string;
+  response: { status_code: number; request_id: string; body: unknown } | null;
+  error: { code: string; message: string } | null;
+}
+
+/**
+ * File and batch store backend. Line results are stored as they complete,
+ * so an interrupted batch resumes where it stopped.
+ */
+interface BatchStore {
+  kind: "memory" | "kv";
+  getFile(id: string): Promise<StoredFile | null>;
+  putFile(entry: StoredFile, content: Uint8Array<ArrayBuffer>): Promise<void>;
+  readFile(id: string): Promise<Uint8Array<ArrayBuffer> | null>;
+  listFiles(owner: string): Promise<FileObject[]>;
+  deleteFile(id: string): Promise<boolean>;
+  getBatch(id: string): Promise<StoredBatch | null>;
+  saveBatch(entry: StoredBatch): Promise<void>;
+  listBatches(owner: string): Promise<BatchObject[]>;
+  saveResult(batchId: string, index: number, result: BatchResult): Promise<void>;
+  // Results by line index
+  listResults(batchId: string): Promise<Map<number, BatchResult>>;
+  deleteResults(batchId: string): Promise<void>;
+}
+
+/**
+ * Whether a stored file has passed its expires_at.
+ */
+function isExpiredFile(entry: StoredFile): boolean {
+  return entry.file.expires_at * 1000 <= Date.now();
+}
+
+/**
+ * In-memory store (local development; lost on restart).
+ * Expired files are dropped when they are next read.
+ */
+function createMemoryBatchStore(): BatchStore {
+  const files = new Map<string, { entry: StoredFile; content: Uint8Array<ArrayBuffer> }>();
+  const batches = new Map<string, StoredBatch>();
+  const results = new Map<string, Map<number, BatchResult>>();
+  const liveFile = (id: string) => {
+    const stored = files.get(id);
+    if (stored && isExpiredFile(stored.entry)) {
+      files.delete(id);
+      return undefined;
+    }
+    return stored;
+  };
+  return {
+    kind: "memory",
+    getFile(id) {
+      return Promise.resolve(liveFile(id)?.entry ?? null);
+    },
+    putFile(entry, content) {
+      files.set(entry.file.id, { entry, content });
+      return Promise.resolve();
+    },
+    readFile(id) {
+      return Promise.resolve(liveFile(id)?.content ?? null);
+    },
+    listFiles(owner) {
+      return Promise.resolve(
+        [...files.keys()].map(liveFile).filter((stored) => stored?.entry.owner === owner).map((stored) => stored!.entry.file)
+      );
+    },
+    deleteFile(id) {
+      return Promise.resolve(files.delete(id));
+    },
+    getBatch(id) {
+      return Promise.resolve(batches.get(id) ?? null);
+    },
+    saveBatch(entry) {
+      batches.set(entry.batch.id, entry);
+      return Promise.resolve();
+    },
+    listBatches(owner) {
+      return Promise.resolve([...batches.values()].filter((entry) => entry.owner === owner).map((entry) => entry.batch));
+    },
+    saveResult(batchId, index, result) {
+      if (!results.has(batchId)) {
+        results.set(batchId, new Map());
+      }
+      results.get(batchId)!.set(index, result);
+      return Promise.resolve();
+    },
+    listResults(batchId) {
+      return Promise.resolve(new Map(results.get(batchId)));
+    },
+    deleteResults(batchId) {
+      results.delete(batchId);
+      return Promise.resolve();
+    },
+  };
+}
+
+// Chunks written per atomic commit (a commit is limited to 800 KB)
+const KV_CHUNKS_PER_COMMIT = 8;
+
+/**
+ * Stores bytes in KV_MAX_VALUE_BYTES chunks under [...prefix, 0], [...prefix, 1], ...
+ */
+async function kvSetChunked(kv: Deno.Kv, prefix: Deno.KvKey, bytes: Uint8Array): Promise<void> {
+  const count = Math.max(1, Math.ceil(bytes.length / KV_MAX_VALUE_BYTES));
+  for (let start = 0; start < count; start += KV_CHUNKS_PER_COMMIT) {
+    const op = kv.atomic();
+    for (let i = start; i < Math.min(count, start + KV_CHUNKS_PER_COMMIT); i++) {
+      op.set([...prefix, i], bytes.slice(i * KV_MAX_VALUE_BYTES, (i + 1) * KV_MAX_VALUE_BYTES), { expireIn: FILE_TTL_MS });
+    }
+    await op.commit();
+  }
+}
+
+/**
+ * Reads bytes written by kvSetChunked (null if there are none).
+ */
+async function kvGetChunked(kv: Deno.Kv, prefix: Deno.KvKey): Promise<Uint8Array<ArrayBuffer> | null> {
+  const chunks: Uint8Array[] = [];
+  for await (const entry of kv.list<Uint8Array>({ prefix })) {
+    chunks.push(entry.value);
+  }
+  return chunks.length ? concatBytes(chunks) : null;
+}
+
+/**
+ * Concatenates byte arrays.
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Deno KV store (Deno Deploy): file metadata under ["files", id], content
+ * in chunks under ["file_chunks", id, i]; line results in chunks under
+ * ["batch_results", batchId, index, i]. Everything expires after 30 days.
+ */
+function createKvBatchStore(kv: Deno.Kv): BatchStore {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const deletePrefix = async (prefix: Deno.KvKey) => {
+    for await (const entry of kv.list({ prefix })) {
+      await kv.delete(entry.key);
+    }
+  };
+  return {
+    kind: "kv",
+    async getFile(id) {
+      return (await kv.get<StoredFile>(["files", id])).value;
+    },
+    async putFile(entry, content) {
+      await kvSetChunked(kv, ["file_chunks", entry.file.id], content);
+      await kv.set(["files", entry.file.id], entry, { expireIn: FILE_TTL_MS });
+    },
+    readFile(id) {
+      return kvGetChunked(kv, ["file_chunks", id]);
+    },
+    async listFiles(owner) {
+      const files: FileObject[] = [];
+      for await (const entry of kv.list<StoredFile>({ prefix: ["files"] })) {
+        if (entry.value.owner === owner) files.push(entry.value.file);
+      }
+      return files;
+    },
+    async deleteFile(id) {
+      if (!(await kv.get(["files", id])).value) {
+        return false;
+      }
+      await kv.delete(["files", id]);
+      await deletePrefix(["file_chunks", id]);
+      return true;
+    },
+    async getBatch(id) {
+      return (await kv.get<StoredBatch>(["batches", id])).value;
+    },
+    async saveBatch(entry) {
+      await kv.set(["batches", entry.batch.id], entry, { expireIn: FILE_TTL_MS });
+    },
+    async listBatches(owner) {
+      const batches: BatchObject[] = [];
+      for await (const entry of kv.list<StoredBatch>({ prefix: ["batches"] })) {
+        if (entry.value.owner === owner) batches.push(entry.value.batch);
+      }
+      return batches;
+    },
+    async saveResult(batchId, index, result) {
+      await kvSetChunked(kv, ["batch_results", batchId, index], encoder.encode(JSON.stringify(result)));
+    },
+    async listResults(batchId) {
+      const chunks = new Map<number, Uint8Array[]>();
+      for await (const entry of kv.list<Uint8Array>({ prefix: ["batch_results", batchId] })) {
+        const index = entry.key[2] as number;
+        chunks.set(index, [...chunks.get(index) ?? [], entry.value]);
+      }
+      return new Map(
+        [...chunks].map(([index, parts]) => [index, JSON.parse(decoder.decode(concatBytes(parts))) as BatchResult])
+      );
+    },
+    deleteResults(batchId) {
+      return deletePrefix(["batch_results", batchId]);
+    },
+  };
+}
+
+let batchStorePromise: Promise<BatchStore> | null = null;
+
+/**
+ * Returns the file and batch store (created on first use).
+ * BATCH_STORE: "kv" | "memory"; defaults to "kv" on Deno Deploy, "memory" elsewhere.
+ * Falls back to memory if KV cannot be opened.
+ */
+function getBatchStore(): Promise<BatchStore> {
+  if (!batchStorePromise) {
+    batchStorePromise = (async () => {
+      const kind = BATCH_STORE || (Deno.env.get("DENO_DEPLOYMENT_ID") ? "kv" : "memory");
+      if (kind === "kv") {
+        try {
+          return createKvBatchStore(await Deno.openKv());
+        } catch (error) {
+          log("error", "Cannot open kv batch store, falling back to memory", { error });
+        }
+      }
+      return createMemoryBatchStore();
+    })();
+  }
+  return batchStorePromise;
+}
+
+/**
+ * Stores a new file and returns its API object.
+ */
+async function createFile(
+  owner: string,
+  filename: string,
+  purpose: FileObject["purpose"],
+  content: Uint8Array<ArrayBuffer>
+): Promise<FileObject> {
+  const createdAt = Math.floor(Date.now() / 1000);
+  const file: FileObject = {
+    id: "file-" + crypto.randomUUID().replace(/-/g, ""),
+    object: "file",
+    bytes: content.length,
+    created_at: createdAt,
+    expires_at: createdAt + FILE_TTL_MS / 1000,
+    filename,
+    purpose,
+    status: "processed",
+  };
+  await (await getBatchStore()).putFile({ owner, file }, content);
+  return file;
+}
+
+// ============================================================================
+// Files & Batches Handler
+// ============================================================================
+
+/**
+ * A validated line of a batch input file.
+ */
+interface BatchRequest {
+  custom_id: string;
+  method: "POST";
+  url: string;
+  body: Record<string, unknown>;
+}
+
+// Batches being run by this instance (the live objects, updated as lines complete)
+const runningBatches = new Map<string, BatchObject>();
+
+/**
+ * Returns a file or batch API object as a 200 JSON response.
+ */
+function batchResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function fileNotFound(id: string): Response {
+  return errorResponse(`No such File object: ${id}`, 404, "file_not_found");
+}
+
+function batchNotFound(id: string): Response {
+  return errorResponse(`No batch found with id '${id}'.`, 404, "batch_not_found");
+}
+
+/**
+ * Returns one page of a list, newest first:
+ * ?limit (1-100, default 20) and ?after (id of the last item of the previous page).
+ */
+function listPage<T extends { id: string; created_at: number }>(items: T[], url: URL): Response {
+  const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 20, 1), 100);
+  const sorted = items.sort((a, b) => b.created_at - a.created_at || b.id.localeCompare(a.id));
+  const after = url.searchParams.get("after");
+  const start = after ? sorted.findIndex((item) => item.id === after) + 1 : 0;
+  const data = sorted.slice(start, start + limit);
+  return batchResponse({
+    object: "list",
+    data,
+    first_id: data[0]?.id ?? null,
+    last_id: data[data.length - 1]?.id ?? null,
+    has_more: start + limit < sorted.length,
+  });
+}
+
+/**
+ * Parses a multipart upload without buffering more than MAX_UPLOAD_BYTES:
+ * a larger Content-Length is rejected before reading, and a body that runs
+ * past the limit anyway is cut off mid-stream.
+ */
+async function readUploadForm(req: Request): Promise<{ form: FormData } | { error: Response }> {
+  const tooLarge = () => ({
+    error: errorResponse(`File is too large (limit ${MAX_FILE_BYTES / 1024 / 1024} MB)`, 413, "file_too_large"),
+  });
+  if (Number(req.headers.get("Content-Length")) > MAX_UPLOAD_BYTES) {
+    return tooLarge();
+  }
+
+  let received = 0;
+  let exceeded = false;
+  const limited = req.body?.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > MAX_UPLOAD_BYTES) {
+        exceeded = true;
+        controller.error(new Error("Upload exceeds the size limit"));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  }));
+  try {
+    const headers = { "Content-Type": req.headers.get("Content-Type") ?? "" };
+    return { form: await new Response(limited, { headers }).formData() };
+  } catch {
+    return exceeded
+      ? tooLarge()
+      : { error: errorResponse("Expected a multipart/form-data body with file and purpose fields", 400) };
+  }
+}
+
+/**
+ * Routes /v1/files and /v1/files/{id}[/content] requests:
+ * - POST /v1/files: multipart upload (file, purpose "batch")
+ * - GET /v1/files: the caller's files (?purpose filters)
+ * - GET / DELETE /v1/files/{id}
+ * - GET /v1/files/{id}/content
+ */
+async function handleFiles(req: Request, policy: ApiKeyPolicy, path: string, method: string): Promise<Response> {
+  const store = await getBatchStore();
+  const owner = await ownerId(policy);
+
+  if (path === "/v1/files" && method === "POST") {
+    const upload = await readUploadForm(req);
+    if ("error" in upload) {
+      return upload.error;
+    }
+    const { form } = upload;
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return errorResponse("Missing required field: file", 400);
+    }
+    if (form.get("purpose") !== "batch") {
+      return errorResponse("purpose must be 'batch' (the only purpose supported by this proxy)", 400, "invalid_value");
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return errorResponse(`File is too large (limit ${MAX_FILE_BYTES / 1024 / 1024} MB)`, 413, "file_too_large");
+    }
+    return batchResponse(await createFile(owner, file.name || "upload.jsonl", "batch", new Uint8Array(await file.arrayBuffer())));
+  }
+  if (path === "/v1/files" && method === "GET") {
+    const url = new URL(req.url);
+    const purpose = url.searchParams.get("purpose");
+    return listPage((await store.listFiles(owner)).filter((file) => !purpose || file.purpose === purpose), url);
+  }
+  if (path === "/v1/files") {
+    return errorResponse("Not Found", 404);
+  }
+
+  const parsed = pathSegments(path, "/v1/files/");
+  if ("error" in parsed) {
+    return parsed.error;
+  }
+  const [id, sub] = parsed.segments;
+  const entry = await store.getFile(id);
+  if (!entry || entry.owner !== owner) {
+    return fileNotFound(id);
+  }
+  if (sub === undefined && method === "GET") {
+    return batchResponse(entry.file);
+  }
+  if (sub === undefined && method === "DELETE") {
+    await store.deleteFile(id);
+    return batchResponse({ id, object: "file", deleted: true });
+  }
+  if (sub === "content" && method === "GET") {
+    const content = await store.readFile(id);
+    if (!content) {
+      return fileNotFound(id);
+    }
+    return new Response(content, {
+      status: 200,
+      headers: { "Content-Type": "application/octet-stream" },
+    });
+  }
+  return errorResponse("Not Found", 404);
+}
+
+/**
+ * Handles POST /v1/batches: validates the request and starts the batch in
+ * the background. The input file itself is validated by the runner
+ * (status "validating"), as in the OpenAI API.
+ */
+async function handleCreateBatch(req: Request, policy: ApiKeyPolicy): Promise<Response> {
+  let body: { input_file_id?: string; endpoint?: string; completion_window?: string; metadata?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse("Invalid JSON", 400);
+  }
+  if (!body.input_file_id || !body.endpoint || !body.completion_window) {
+    return errorResponse("Missing required fields: input_file_id, endpoint and completion_window", 400);
+  }
+  if (!BATCH_ENDPOINTS.includes(body.endpoint)) {
+    return errorResponse(`endpoint must be one of ${BATCH_ENDPOINTS.join(", ")}`, 400, "invalid_value");
+  }
+  if (body.completion_window !== "24h") {
+    return errorResponse("completion_window must be '24h'", 400, "invalid_value");
+  }
+  const metadata = body.metadata ?? null;
+  if (
+    metadata !== null &&
+    (typeof metadata !== "object" || Array.isArray(metadata) || Object.keys(metadata).length > 16 ||
+      !Object.values(metadata).every((value) => typeof value === "string"))
+  ) {
+    return errorResponse("metadata must be an object of at most 16 string values", 400, "invalid_value");
+  }
+
+  const store = await getBatchStore();
+  const owner = await ownerId(policy);
+  const input = await store.getFile(body.input_file_id);
+  if (!input || input.owner !== owner) {
+    return fileNotFound(body.input_file_id);
+  }
+  if (input.file.purpose !== "batch") {
+    return errorResponse("The input file must have purpose 'batch'", 400, "invalid_value");
+  }
+
+  const createdAt = Math.floor(Date.now() / 1000);
+  const batch: BatchObject = {
+    id: generateResponsesId("batch"),
+    object: "batch",
+    endpoint: body.endpoint,
+    errors: null,
+    input_file_id: body.input_file_id,
+    completion_window: "24h",
+    status: "validating",
+    output_file_id: null,
+    error_file_id: null,
+    created_at: createdAt,
+    in_progress_at: null,
+    expires_at: createdAt + BATCH_WINDOW_MS / 1000,
+    finalizing_at: null,
+    completed_at: null,
+    failed_at: null,
+    expired_at: null,
+    cancelling_at: null,
+    cancelled_at: null,
+    request_counts: { total: 0, completed: 0, failed: 0 },
+    metadata: metadata as Record<string, string> | null,
+  };
+  const entry: StoredBatch = { owner, batch, heartbeat: Date.now() };
+  await store.saveBatch(entry);
+  startBatch(entry, policy);
+  return batchResponse(batch);
+}
+
+/**
+ * Handles GET /v1/batches: the caller's batches, newest first.
+ */
+async function handleListBatches(req: Request, policy: ApiKeyPolicy): Promise<Response> {
+  const batches = await (await getBatchStore()).listBatches(await ownerId(policy));
+  return listPage(batches.map((batch) => runningBatches.get(batch.id) ?? batch), new URL(req.url));
+}
+
+/**
+ * Routes /v1/batches/{id}[/cancel] requests:
+ * - GET /v1/batches/{id}: current status (resumes a stalled batch)
+ * - POST /v1/batches/{id}/cancel: stops a validating or running batch; lines
+ *   already done still go to the output files
+ */
+async function handleBatch(policy: ApiKeyPolicy, path: string, method: string): Promise<Response> {
+  const parsed = pathSegments(path, "/v1/batches/");
+  if ("error" in parsed) {
+    return parsed.error;
+  }
+  const [id, sub] = parsed.segments;
+  const store = await getBatchStore();
+  const entry = await store.getBatch(id);
+  if (!entry || entry.owner !== await ownerId(policy)) {
+    return batchNotFound(id);
+  }
+  const live = runningBatches.get(id);
+  const batch = live ?? entry.batch;
+
+  if (sub === undefined && method === "GET") {
+    resumeStalledBatch(entry, policy);
+    return batchResponse(batch);
+  }
+  if (sub === "cancel" && method === "POST") {
+    if (batch.status === "cancelling") {
+      return batchResponse(batch);
+    }
+    if (batch.status !== "validating" && batch.status !== "in_progress") {
+      return errorResponse(`Cannot cancel a batch with status '${batch.status}'.`, 409, "invalid_batch_status");
+    }
+    batch.status = "cancelling";
+    batch.cancelling_at = Math.floor(Date.now() / 1000);
+    await store.saveBatch({ ...entry, batch });
+    // A live runner (possibly on another instance) picks up the cancel when it
+    // next saves; a batch whose runner stopped is finalized once it is stale
+    resumeStalledBatch({ ...entry, batch }, policy);
+    return batchResponse(batch);
+  }
+  return errorResponse("Not Found", 404);
+}
+
+/**
+ * Restarts an unfinished batch whose runner stopped (e.g. the instance was
+ * recycled), with the caller's key. Lines with stored results are not rerun.
+ */
+function resumeStalledBatch(entry: StoredBatch, policy: ApiKeyPolicy): void {
+  const active = ["validating", "in_progress", "finalizing", "cancelling"].includes(entry.batch.status);
+  if (active && !runningBatches.has(entry.batch.id) && Date.now() - entry.heartbeat >= BATCH_STALE_MS) {
+    log("warn", "Resuming stalled batch", { batch_id: entry.batch.id });
+    startBatch(entry, policy);
+  }
+}
+
+/**
+ * Starts a batch runner in the background.
+ */
+function startBatch(entry: StoredBatch, policy: ApiKeyPolicy): void {
+  runBatch(entry, policy).catch((error) => log("error", "Batch runner failed", { batch_id: entry.batch.id, error }));
+}
+
+/**
+ * Parses a batch input file (JSONL, one {custom_id, method, url, body} per
+ * line). Returns the requests, or the errors that fail the batch.
+ */
+function parseBatchInput(text: string, endpoint: string): BatchRequest[] | { errors: BatchError[] } {
+  const requests: BatchRequest[] = [];
+  const errors: BatchError[] = [];
+  const customIds = new Set<string>();
+
+  text.split("\n").forEach((raw, i) => {
+    if (!raw.trim()) return;
+    const fail = (code: string, message: string, param: string | null = null) =>
+      errors.push({ code, message, param, line: i + 1 });
+    let request: Partial<BatchRequest>;
+    try {
+      request = JSON.parse(raw);
+    } catch {
+      return fail("invalid_json_line", "This line is not parseable as valid JSON.");
+    }
+    if (!request || typeof request !== "object") {
+      return fail("invalid_json_line", "Each line must be a JSON object.");
+    }
+    if (typeof request.custom_id !== "string" || !request.custom_id) {
+      return fail("missing_required_parameter", "custom_id is required.", "custom_id");
+    }
+    if (customIds.has(request.custom_id)) {
+      return fail("duplicate_custom_id", `The custom_id '${request.custom_id}' is used more than once.`, "custom_id");
+    }
+    customIds.add(request.custom_id);
+    if (request.method !== "POST") {
+      return fail("invalid_method", "method must be 'POST'.", "method");
+    }
+    if (request.url !== endpoint) {
+      return fail("mismatched_url", `url must match the batch endpoint '${endpoint}'.`, "url");
+    }
+    if (!request.body || typeof request.body !== "object" || Array.isArray(request.body)) {
+      return fail("invalid_body", "body must be a JSON object.", "body");
+    }
+    requests.push(request as BatchRequest);
+  });
+
+  if (!errors.length && !requests.length) {
+    errors.push({ code: "empty_file", message: "The input file contains no requests.", param: null, line: null });
+  }
+  if (requests.length > MAX_BATCH_REQUESTS) {
+    errors.push({
+      code: "too_many_requests",
+      message: `A batch can contain at most ${MAX_BATCH_REQUESTS} requests.`,
+      param: null,
+      line: null,
+    });
+  }
+  return errors.length ? { errors: errors.slice(0, MAX_BATCH_ERRORS) } : requests;
+}
+
+/**
+ * Runs one batch line through the same handler as a direct API call (with
+ * its quotas and model policy); streaming is turned off. Each line takes a
+ * token from the key's rate limit bucket, waiting for one when it is empty.
+ */
+async function runBatchLine(
+  batch: BatchObject,
+  request: BatchRequest,
+  index: number,
+  policy: ApiKeyPolicy
+): Promise<BatchResult> {
+  const req = new Request("http://localhost" + batch.endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-request-id": `${batch.id}.${index}` },
+    body: JSON.stringify({ ...request.body, ...(request.body.stream ? { stream: false } : {}) }),
+  });
+  for (let limit = checkRateLimit(req, policy); limit && !limit.allowed; limit = checkRateLimit(req, policy)) {
+    await sleep(limit.retryAfterSeconds * 1000);
+  }
+  const ctx = startRequest(req);
+  const response = await finishRequest(ctx, await routeV1(req, batch.endpoint, "POST", policy));
+
+  let body: { error?: { code?: string | null; type?: string; message?: string } } | null = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Keep a null body
+  }
+  return {
+    id: generateResponsesId("batch_req"),
+    custom_id: request.custom_id,
+    response: { status_code: response.status, request_id: ctx.id, body },
+    error: response.status >= 400
+      ? {
+        code: body?.error?.code || body?.error?.type || errorTypeForStatus(response.status),
+        message: body?.error?.message || `Request failed with status ${response.status}`,
+      }
+      : null,
+  };
+}
+
+/**
+ * Runs a batch in the background: validates its input file, runs its lines
+ * with up to BATCH_CONCURRENCY at a time, then writes the output and error
+ * files. Progress is saved after every line; errors fail the batch.
+ */
+async function runBatch(entry: StoredBatch, policy: ApiKeyPolicy): Promise<void> {
+  const batch = entry.batch;
+  const id = batch.id;
+  // Claimed before any await, so concurrent polls cannot start a second runner
+  if (runningBatches.has(id)) return;
+  runningBatches.set(id, batch);
+
+  // Saves progress; picks up a cancel made through another instance
+  const save = async () => {
+    const store = await getBatchStore();
+    const stored = await store.getBatch(id);
+    if (stored?.batch.status === "cancelling" && (batch.status === "validating" || batch.status === "in_progress")) {
+      batch.status = "cancelling";
+      batch.cancelling_at = stored.batch.cancelling_at;
+    }
+    await store.saveBatch({ ...entry, batch, heartbeat: Date.now() });
+  };
+  const now = () => Math.floor(Date.now() / 1000);
+
+  try {
+    const store = await getBatchStore();
+    const content = await store.readFile(batch.input_file_id);
+    const parsed = content
+      ? parseBatchInput(new TextDecoder().decode(content), batch.endpoint)
+      : { errors: [{ code: "file_not_found", message: "The input file was deleted.", param: "input_file_id", line: null }] };
+    if ("errors" in parsed) {
+      batch.status = "failed";
+      batch.failed_at = now();
+      batch.errors = { object: "list", data: parsed.errors };
+      await save();
+      return;
+    }
+
+    const requests = parsed;
+    const results = await store.listResults(id);
+    batch.request_counts = {
+      total: requests.length,
+      completed: [...results.values()].filter((result) => !result.error).length,
+      failed: [...results.values()].filter((result) => result.error).length,
+    };
+    if (batch.status === "validating") {
+      batch.status = "in_progress";
+      batch.in_progress_at = now();
+    }
+    await save();
+
+    let next = 0;
+    const worker = async () => {
+      while (next < requests.length && batch.status === "in_progress" && now() < batch.expires_at) {
+        const index = next++;
+        if (results.has(index)) continue;
+        const result = await runBatchLine(batch, requests[index], index, policy);
+        results.set(index, result);
+        await store.saveResult(id, index, result);
+        batch.request_counts[result.error ? "failed" : "completed"]++;
+        await save();
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(config.batch_concurrency, requests.length) }, worker));
+    await finalizeBatch(batch, entry.owner, requests, results, save);
+    await store.deleteResults(id);
+  } catch (error) {
+    log("error", "Batch failed", { batch_id: id, error });
+    batch.status = "failed";
+    batch.failed_at = now();
+    batch.errors = { object: "list", data: [{ code: "server_error", message: "The batch failed unexpectedly.", param: null, line: null }] };
+    await save().catch(() => {});
+  } finally {
+    runningBatches.delete(id);
+  }
+}
+
+/**
+ * Writes the output file (successful lines) and error file (failed lines,
+ * and lines not run because the batch was cancelled or expired), in input
+ * order, and sets the final status.
+ */
+async function finalizeBatch(
+  batch: BatchObject,
+  owner: string,
+  requests: BatchRequest[],
+  results: Map<number, BatchResult>,
+  save: () => Promise<void>
+): Promise<void> {
+  const now = () => Math.floor(Date.now() / 1000);
+  const cancelled = batch.status === "cancelling";
+  if (batch.status === "in_progress") {
+    batch.status = "finalizing";
+    batch.finalizing_at = now();
+    await save();
+  }
+
+  const output: string[] = [];
+  const errors: string[] = [];
+  requests.forEach((request, index) => {
+    const result: BatchResult = results.get(index) ?? {
+      id: generateResponsesId("batch_req"),
+      custom_id: request.custom_id,
+      response: null,
+      error: cancelled
+        ? { code: "batch_cancelled", message: "This line was not executed because the batch was cancelled." }
+        : { code: "batch_expired", message: "This line could not be executed before the completion window expired." },
+    };
+    (result.error ? errors : output).push(JSON.stringify(result) + "\n");
+  });
+  const encoder = new TextEncoder();
+  if (output.length) {
+    batch.output_file_id = (await createFile(owner, `${batch.id}_output.jsonl`, "batch_output", encoder.encode(output.join("")))).id;
+  }
+  if (errors.length) {
+    batch.error_file_id = (await createFile(owner, `${batch.id}_error.jsonl`, "batch_output", encoder.encode(errors.join("")))).id;
+  }
+
+  if (cancelled) {
+    batch.status = "cancelled";
+    batch.cancelled_at = now();
+  } else if (results.size < requests.length) {
+    batch.status = "expired";
+    batch.expired_at = now();
+  } else {
+    batch.status = "completed";
+    batch.completed_at = now();
+  }
+  await save();
+}
+
+// ============================================================================
+// Model Registry
+// ============================================================================
+
+/**
+ * Built-in model list from infiniax.ai, used until the catalog has been
+ * fetched from upstream and whenever the upstream catalog is unreachable.
+ * Source: https://infiniax.ai (extracted from frontend)
+ */
+const INFINIAX_MODELS = [
+  // Featured FREE models
+  { id: "meta-llama/llama-3.3-70b-instruct:free", name: "Llama 3.3 70B", provider: "Meta", description: "FREE - High quality open-source" },
+  { id: "amazon/nova-2-lite-v1:free", name: "Nova 2 Lite", provider: "Amazon", description: "FREE - Fast and efficient" },
+  { id: "arcee-ai/trinity-mini:free", name: "Trinity Mini", provider: "Arcee AI", description: "FREE - Compact reasoning model" },
+  { id: "deepseek/deepseek-v3.2-exp", name: "DeepSeek 3.2 Exp", provider: "DeepSeek", description: "FREE - Next-gen experimental" },
+  { id: "mistralai/ministral-14b-2512", name: "Mistral 14B", provider: "Mistral AI", description: "FREE - Fast European AI" },
+  { id: "z-ai/glm-4.6v", name: "GLM 4.6v", provider: "Z.ai", description: "FREE - Advanced reasoning", reasoning: true },
+  // Premium models
+  { id: "anthropic/claude-opus-4.5", name: "Claude Opus 4.5", provider: "Anthropic", description: "PREMIUM - Advanced Coding & Writing" },
+  { id: "google/gemini-3-pro-preview", name: "Gemini 3 Pro", provider: "Google", description: "PREMIUM - Peak Intelligence" },
+  { id: "openai/gpt-5-pro", name: "GPT-5 Pro", provider: "OpenAI", description: "PREMIUM - Most Expensive, Best output" },
+  // OpenAI models
+  { id: "openai/gpt-5.1", name: "GPT-5.1", provider: "OpenAI", description: "FREE - Enhanced GPT-5 model" },
+  { id: "openai/gpt-5.1-chat", name: "GPT-5.1 Chat", provider: "OpenAI", description: "FREE - Optimized for conversations" },
+  { id: "openai/gpt-5.1-codex-max", name: "GPT-5.1 Codex Max", provider: "OpenAI", description: "FREE - Advanced reasoning for large tasks" },
+  { id: "openai/gpt-5", name: "GPT-5", provider: "OpenAI", description: "FREE - Next-generation flagship model" },
+  { id: "openai/gpt-5-mini", name: "GPT-5 Mini", provider: "OpenAI", description: "FREE - Fast and efficient GPT-5" },
+  { id: "openai/gpt-5-nano", name: "GPT-5 Nano", provider: "OpenAI", description: "FREE - Ultra-lightweight GPT-5" },
+  { id: "openai/gpt-4o", name: "GPT-4o", provider: "OpenAI", description: "FREE - Multimodal GPT-4 optimized" },
+  { id: "openai/gpt-4-turbo", name: "GPT-4 Turbo", provider: "OpenAI", description: "FREE - Previous generation flagship" },
+  { id: "openai/gpt-3.5-turbo", name: "GPT-3.5 Turbo", provider: "OpenAI", description: "FREE - Fast and economical" },
+  // Anthropic models
+  { id: "anthropic/claude-opus-4.1", name: "Claude Opus 4.1", provider: "Anthropic", description: "FREE - Most capable Claude model" },
+  { id: "anthropic/claude-sonnet-4", name: "Claude Sonnet 4", provider: "Anthropic", description: "FREE - Balanced performance and speed" },
+  { id: "anthropic/claude-haiku-4.5", name: "Claude Haiku 4.5", provider: "Anthropic", description: "FREE - Lightning-fast responses" },
+  { id: "anthropic/claude-sonnet-4.5", name: "Claude Sonnet 4.5", provider: "Anthropic", description: "FREE - Advanced reasoning and coding" },
+  { id: "anthropic/claude-3.7-sonnet", name: "Claude 3.7 Sonnet", provider: "Anthropic", description: "FREE - Enhanced Claude 3 generation" },
+  { id: "anthropic/claude-3.5-haiku", name: "Claude 3.5 Haiku", provider: "Anthropic", description: "FREE - Fast and efficient Claude" },
+  { id: "anthropic/claude-3-opus", name: "Claude 3 Opus", provider: "Anthropic", description: "FREE - Most capable Claude model" },
+  // Google models
+  { id: "google/gemini-2.5-pro", name: "Gemini 2.5 Pro", provider: "Google", description: "FREE - Advanced multimodal" },
+  { id: "google/gemini-2.5-flash", name: "Gemini 2.5 Flash", provider: "Google", description: "FREE - Fast multimodal AI" },
+  { id: "google/gemini-flash-1.5", name: "Gemini 1.5 Flash", provider: "Google", description: "FREE - Efficient multimodal model" },
+  // X.AI models
+  { id: "x-ai/grok-4", name: "Grok 4", provider: "X.AI", description: "FREE - Most capable Grok model" },
+  { id: "x-ai/grok-4-fast", name: "Grok 4 Fast", provider: "X.AI", description: "FREE - Lightning-fast Grok" },
+  { id: "x-ai/grok-4.1-fast", name: "Grok 4.1 Fast", provider: "X.AI", description: "FREE - Lightning-fast Grok" },
+  { id: "x-ai/grok-4.1-fast:reasoning", name: "Grok 4.1 Fast Reasoning", provider: "X.AI", description: "FREE - Enhanced reasoning mode" },
+  { id: "x-ai/grok-code-fast-1", name: "Grok Code Fast", provider: "X.AI", description: "FREE - Specialized for coding" },
+  // Meta models
+  { id: "meta-llama/llama-4-scout", name: "Llama 4 Scout", provider: "Meta", description: "FREE - Fast and efficient Llama 4" },
+  { id: "meta-llama/llama-4-maverick", name: "Llama 4 Maverick", provider: "Meta", description: "FREE - Advanced Llama 4 model" },
+  // DeepSeek models
+  { id: "deepseek/deepseek-v3.1-terminus", name: "DeepSeek 3.1 Terminus", provider: "DeepSeek", description: "FREE - Advanced reasoning model" },
+  { id: "deepseek/deepseek-chat", name: "DeepSeek Chat", provider: "DeepSeek", description: "FREE - Efficient reasoning" },
+  // Qwen models
+  { id: "qwen/qwen3-max", name: "Qwen 3 Max", provider: "Qwen", description: "FREE - Top-tier reasoning model" },
+  { id: "qwen/qwen3-coder-plus", name: "Qwen 3 Coder Plus", provider: "Qwen", description: "FREE - Advanced coding model" },
+  { id: "qwen/qwen3-coder-flash", name: "Qwen 3 Coder Flash", provider: "Qwen", description: "FREE - Fast coding assistant" },
+  { id: "qwen/qwen-2.5-72b-instruct", name: "Qwen 2.5 72B", provider: "Qwen", description: "FREE - Multilingual excellence" },
+  { id: "qwen/qwen-turbo", name: "Qwen Turbo", provider: "Qwen", description: "FREE - Ultra-fast responses" },
+  // Mistral models
+  { id: "mistralai/mistral-large", name: "Mistral Large", provider: "Mistral AI", description: "FREE - European flagship model" },
+  { id: "mistralai/mistral-medium-3.1", name: "Mistral Medium", provider: "Mistral AI", description: "FREE - Balanced capabilities" },
+  // Other models
+  { id: "minimax/minimax-m2", name: "Minimax M2", provider: "Minimax", description: "FREE - Advanced reasoning model", reasoning: true },
+  { id: "moonshotai/kimi-k2-thinking", name: "Moonshot Kimi K2", provider: "Moonshot", description: "FREE - Deep thinking capabilities", reasoning: true },
+  { id: "microsoft/phi-3-medium-128k-instruct", name: "Phi-3 Medium", provider: "Microsoft", description: "FREE - Compact and capable" },
+  { id: "cohere/command-r-plus-08-2024", name: "Command R+", provider: "Cohere", description: "FREE - Enterprise-grade RAG" },
+  { id: "z-ai/glm-4.6", name: "GLM 4.6", provider: "Z.ai", description: "FREE - Advanced reasoning model", reasoning: true },
+  { id: "z-ai/glm-4.6:exacto", name: "GLM 4.6 Exacto", provider: "Z.ai", description: "FREE - Optimized precision model", reasoning: true },
+];
+
+/**
+ * Model metadata served by GET /v1/models/{id}.
+ * Tools and JSON output are emulated by the proxy, so every model has them.
+ */
+interface ModelInfo {
+  id: string;
+  name: string;
+  provider: string;
+  description: string;
+  tier: "free" | "premium";
+  context_window: number;
+  capabilities: {
+    vision: boolean;
+    tools: boolean;
+    json_output: boolean;
+    web_search: boolean;
+    // Opens its answer with an inline <think>...</think> block
+    reasoning: boolean;
+  };
+}
+
+// Context window (tokens) by model id, for catalog entries that do not report one
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^openai\/gpt-5/, 400_000],
+  [/^openai\/gpt-3\.5/, 16_385],
+  [/^openai\//, 128_000],
+  [/^anthropic\//, 200_000],
+  [/^google\//, 1_000_000],
+  [/^x-ai\/grok-4(\.1)?-fast/, 2_000_000],
+  [/^x-ai\//, 256_000],
+];
+const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+function contextWindowFor(id: string): number {
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(id))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+let modelRegistry = new Map<string, ModelInfo>();
+let modelSource: "builtin" | "upstream" = "builtin";
+let modelsNextRefreshAt = 0;
+let modelsRefreshing: Promise<void> | null = null;
+// Whether the last catalog fetch failed (findModel then does not wait for the retry)
+let modelsRefreshFailed = false;
+
+// Retry a failed catalog fetch sooner than the regular refresh interval
+const MODELS_RETRY_MS = 60 * 1000;
+
+/**
+ * Normalizes one upstream catalog entry into ModelInfo.
+ * The catalog shape is not documented, so common field names are accepted
+ * (id/modelId/slug, premium/isPremium/tier, capabilities.vision/supportsImages,
+ * capabilities.reasoning/reasoning/isReasoning).
+ * Returns null for entries without an id.
+ */
+function toModelInfo(entry: Record<string, unknown>): ModelInfo | null {
+  const id = entry.id ?? entry.modelId ?? entry.slug;
+  if (typeof id !== "string" || !id) {
+    return null;
+  }
+
+  const str = (value: unknown, fallback: string) => typeof value === "string" && value ? value : fallback;
+  const description = str(entry.description, "");
+  const premium = entry.tier === "premium" || entry.premium === true || entry.isPremium === true ||
+    /^PREMIUM\b/i.test(description);
+  const capabilities = (entry.capabilities ?? {}) as Record<string, unknown>;
+  const vision = capabilities.vision ?? entry.supportsImages ?? entry.vision;
+  const reasoning = capabilities.reasoning ?? entry.reasoning ?? entry.isReasoning;
+  const contextWindow = Number(entry.contextLength ?? entry.context_length ?? entry.contextWindow);
+
+  return {
+    id,
+    name: str(entry.name ?? entry.label, id),
+    provider: str(entry.provider, id.split("/")[0]),
+    description,
+    tier: premium ? "premium" : "free",
+    context_window: contextWindow > 0 ? contextWindow : contextWindowFor(id),
+    capabilities: {
+      vision: typeof vision === "boolean" ? vision : VISION_MODELS.has(id),
+      tools: true,
+      json_output: true,
+      web_search: true,
+      reasoning: reasoning === true,
+    },
+  };
+}
+
+function setModelRegistry(models: ModelInfo[], source: "builtin" | "upstream"): void {
+  modelRegistry = new Map(models.map((m) => [m.id, m]));
+  modelSource = source;
+}
+
+/**
+ * The local model list: the infiniax_models setting, or the built-in list.
+ * Served until the upstream catalog has been fetched, and whenever the
+ * catalog is unreachable or its refresh is disabled.
+ */
+function localModels(): ModelInfo[] {
+  const entries = config.infiniax_models.length ? config.infiniax_models : INFINIAX_MODELS;
+  return entries.map(toModelInfo).filter((m): m is ModelInfo => m !== null);
+}
+
+/**
+ * Fetches the model catalog from upstream and replaces the registry.
+ * Accepts a bare array or {models: [...]} / {data: [...]}. On any failure
+ * the current registry (initially the built-in list) is kept.
+ */
+async function refreshModels(): Promise<void> {
+  try {
+    const response = await upstream.fetch(upstream.modelsUrl, {
+      headers: { "Accept": "application/json" },
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const body = await response.json();
+    const list = Array.isArray(body) ? body : body?.models ?? body?.data;
+    const models = Array.isArray(list)
+      ? list.filter((e) => e && typeof e === "object").map(toModelInfo).filter((m): m is ModelInfo => m !== null)
+      : [];
+    if (models.length === 0) {
+      throw new Error("no models in response");
+    }
+
+    setModelRegistry(models, "upstream");
+    modelsRefreshFailed = false;
+    modelsNextRefreshAt = Date.now() + config.models_refresh_minutes * 60 * 1000;
+    log("info", "Model catalog refreshed", { models: models.length });
+  } catch (error) {
+    modelsRefreshFailed = true;
+    modelsNextRefreshAt = Date.now() + Math.min(MODELS_RETRY_MS, config.models_refresh_minutes * 60 * 1000);
+    log("warn", "Model catalog refresh failed, keeping the current list", { source: modelSource, models: modelRegistry.size, error });
+  }
+}
+
 /**
- * Maps upstream HTTP status codes to appropriate proxy responses.
- * Requirements: 7.1, 7.3
+ * Starts a background catalog refresh when the cached one is due.
+ * Returns the in-flight refresh, if any. MODELS_REFRESH_MINUTES=0 disables it.
  */
-function handleUpstreamError(status: number): Response {
-  // Authentication failures (401/403 from upstream)
-  if (status === 401 || status === 403) {
-    return errorResponse("Authentication failed", 401);
+function ensureModelsFresh(): Promise<void> | null {
+  if (config.models_refresh_minutes > 0 && !modelsRefreshing && Date.now() >= modelsNextRefreshAt) {
+    modelsRefreshing = refreshModels().finally(() => {
+      modelsRefreshing = null;
+    });
   }
-  // All other upstream errors are treated as 502 Bad Gateway
-  return errorResponse("Upstream error", 502);
+  return modelsRefreshing;
+}
+
+/**
+ * Looks up a model in the registry (synchronous, no refresh).
+ */
+function getModel(id: string): ModelInfo | undefined {
+  return modelRegistry.get(id);
+}
+
+/**
+ * Looks up a model, refreshing the catalog when it is due. An unknown id
+ * waits for an in-flight refresh, so newly added models are found
+ * without serving from a stale list. Refreshes only run once per
+ * MODELS_REFRESH_MINUTES; a retry after a failed fetch is not waited on,
+ * so an unreachable catalog does not hold up every unknown id.
+ */
+async function findModel(id: string): Promise<ModelInfo | undefined> {
+  const refreshing = ensureModelsFresh();
+  const model = getModel(id);
+  if (model || !refreshing || modelsRefreshFailed) {
+    return model;
+  }
+  await refreshing;
+  return getModel(id);
+}
+
+function modelNotFound(model: string): Response {
+  return errorResponse(`The model '${model}' does not exist`, 404, "model_not_found");
 }
 
 // ============================================================================
-// Chat Completions Handler
+// Model Routing (aliases, rules, fallback chains)
 // ============================================================================
 
 /**
- * Handles POST /v1/chat/completions requests.
- * - Parses request body
- * - Transforms to infiniax format
- * - Sends request to infiniax API with Cookie
- * - Handles streaming/non-streaming responses
- * 
- * Requirements: 3.1, 3.4, 4.1, 4.3, 5.1, 7.1, 7.2, 7.3
+ * A routing rule: requests for `model` ("*" = any) that carry all `traits`
+ * are sent to `targets`, tried in order.
  */
-async function handleChatCompletions(req: Request): Promise<Response> {
-  try {
-    // Parse request body (Requirements: 3.4 - Invalid JSON → 400)
-    let openaiReq: OpenAIRequest;
-    try {
-      openaiReq = await req.json();
-    } catch {
-      return errorResponse("Invalid JSON", 400);
+interface ModelRoute {
+  model: string;
+  traits: string[];
+  targets: string[];
+}
+
+/**
+ * MODEL_ALIASES: {"gpt-4o": "openai/gpt-4o", "claude-3-5-sonnet": "anthropic/claude-sonnet-4.5"}
+ * Rebuilt by applyConfig.
+ */
+let modelAliases: Record<string, string> = {};
+
+/**
+ * MODEL_ROUTES: [{"model":"auto","traits":["coding"],"targets":["qwen/qwen3-coder-plus","x-ai/grok-code-fast-1"]}]
+ * Rebuilt by applyConfig.
+ */
+let modelRoutes: ModelRoute[] = [];
+
+/**
+ * MODEL_FALLBACKS: {"openai/gpt-4o": ["openai/gpt-4-turbo"], "*": ["openai/gpt-4o-mini"]}
+ * "*" is appended to every chain. Rebuilt by applyConfig.
+ */
+let modelFallbacks: Record<string, string[]> = {};
+
+/**
+ * Resolves a client model name to an infiniax id:
+ * 1. the MODEL_ALIASES table
+ * 2. an exact registry id
+ * 3. a registry id without its provider prefix ("gpt-4o" → "openai/gpt-4o"),
+ *    also after dropping date suffixes and turning "3-5" into "3.5"
+ *    ("claude-3-5-haiku-20241022" → "anthropic/claude-3.5-haiku")
+ * Unknown names are returned unchanged.
+ */
+function resolveAlias(name: string): string {
+  if (modelAliases[name]) {
+    return modelAliases[name];
+  }
+  if (getModel(name)) {
+    return name;
+  }
+
+  const normalized = name
+    .replace(/-(\d{4}-\d{2}-\d{2}|\d{8}|latest)$/, "")
+    .replace(/(\d)-(\d)/g, "$1.$2");
+  for (const candidate of [name, normalized]) {
+    for (const id of modelRegistry.keys()) {
+      if (id.slice(id.indexOf("/") + 1) === candidate) {
+        return id;
+      }
     }
+  }
+  return name;
+}
 
-    // Validate required fields
-    if (!openaiReq.model || !openaiReq.messages) {
-      return errorResponse("Missing required fields: model and messages", 400);
+/**
+ * Collects routing traits for a request: explicit ones from a virtual model
+ * name ("auto:fast,coding") plus implied ones (web_search, tools, vision, json).
+ */
+function requestTraits(openaiReq: OpenAIRequest): Set<string> {
+  const traits = new Set<string>();
+  if (openaiReq.model.startsWith("auto:")) {
+    for (const trait of openaiReq.model.slice("auto:".length).split(",")) {
+      if (trait.trim()) traits.add(trait.trim());
     }
+  }
 
-    // Transform request to infiniax format
-    const infiniaxReq = transformRequest(openaiReq);
-    const isStreaming = openaiReq.stream === true;
+  if (openaiReq.web_search) traits.add("web_search");
+  if (hasToolEmulation(openaiReq)) traits.add("tools");
+  if (isJsonMode(openaiReq)) traits.add("json");
+  if (openaiReq.messages.some((m) => Array.isArray(m.content) && m.content.some((p) => p.type === "image_url"))) {
+    traits.add("vision");
+  }
+  return traits;
+}
 
-    // Send request to infiniax API
-    let upstreamResponse: Response;
-    try {
-      upstreamResponse = await fetch(UPSTREAM_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Cookie": COOKIE || "",
-        },
-        body: JSON.stringify(infiniaxReq),
-      });
-    } catch (error) {
-      // Network errors, DNS failures, etc. → 502 (Requirements: 7.1)
-      console.error("Upstream request failed:", error);
-      return errorResponse("Upstream error", 502);
+/**
+ * Resolves the ordered list of models to try for a request:
+ * the first matching MODEL_ROUTES rule (or the alias-resolved model),
+ * each followed by its MODEL_FALLBACKS, then the "*" fallbacks.
+ * Fails with 404 or 403 when no primary model is known and allowed;
+ * unknown or forbidden fallbacks are dropped.
+ */
+async function resolveModelChain(
+  openaiReq: OpenAIRequest,
+  policy: ApiKeyPolicy
+): Promise<{ chain: string[] } | { error: Response }> {
+  const requested = openaiReq.model;
+  const traits = requestTraits(openaiReq);
+  const baseName = requested.startsWith("auto:") ? "auto" : requested;
+
+  const route = modelRoutes.find((r) =>
+    (r.model === "*" || r.model === requested || r.model === baseName) &&
+    r.traits.every((t) => traits.has(t))
+  );
+  const primary = [...new Set((route ? route.targets : [requested]).map(resolveAlias))];
+
+  // Wait for an in-flight catalog refresh if the first choice is unknown
+  await findModel(primary[0]);
+  const known = primary.filter((id) => getModel(id));
+  if (known.length === 0) {
+    return { error: modelNotFound(requested) };
+  }
+  const allowed = known.filter((id) => isModelAllowed(policy, id));
+  if (allowed.length === 0) {
+    return { error: checkPolicy(policy, { ...openaiReq, model: known[0] })! };
+  }
+
+  // Fallbacks only back up a model the caller may use, never stand in for
+  // an unknown or forbidden one
+  const chain: string[] = [];
+  const add = (name: string) => {
+    const id = resolveAlias(name);
+    if (!chain.includes(id) && getModel(id) && isModelAllowed(policy, id)) {
+      chain.push(id);
     }
+  };
+  for (const id of allowed) {
+    add(id);
+    (modelFallbacks[id] ?? []).forEach(add);
+  }
+  (modelFallbacks["*"] ?? []).forEach(add);
+  return { chain };
+}
 
-    // Handle upstream errors (Requirements: 7.1, 7.3)
-    if (!upstreamResponse.ok) {
-      return handleUpstreamError(upstreamResponse.status);
+/**
+ * Tries each model of a fallback chain in order. A 5xx from one model moves
+ * on to the next; other errors (and the last model's error) are returned.
+ */
+async function withModelFallback<T extends object>(
+  chain: string[],
+  policy: ApiKeyPolicy,
+  attempt: (model: string) => Promise<T | { error: Response }>
+): Promise<{ model: string; value: T } | { error: Response }> {
+  for (let i = 0; ; i++) {
+    const model = chain[i];
+    const result = await attempt(model);
+    if (!("error" in result)) {
+      return { model, value: result as T };
+    }
+    if (result.error.status < 500 || i === chain.length - 1) {
+      return result;
     }
+    log("warn", "Model failed, falling back", { caller: callerId(policy), model, status: result.error.status, fallback: chain[i + 1] });
+  }
+}
+
+/**
+ * Reports the model that actually answered.
+ */
+function withModelHeader(response: Response, model: string): Response {
+  response.headers.set("x-infiniax-model", model);
+  return response;
+}
+
+// ============================================================================
+// Runtime Configuration (config document, hot reload)
+// ============================================================================
+
+/**
+ * The persisted settings overrides, keyed like ProxyConfig.
+ * Settings not in the document come from the environment.
+ */
+interface ConfigDocument {
+  settings: Record<string, unknown>;
+  updated_at: string | null;
+}
+
+interface ConfigStore {
+  kind: "memory" | "file" | "kv";
+  load(): Promise<ConfigDocument>;
+  save(doc: ConfigDocument): Promise<void>;
+  // Reports documents saved by other instances (kv only)
+  watch?(onChange: (doc: ConfigDocument) => void): void;
+}
+
+const EMPTY_CONFIG_DOCUMENT: ConfigDocument = { settings: {}, updated_at: null };
+
+/**
+ * In-memory config store (local development and tests): overrides are lost on restart.
+ */
+function createMemoryConfigStore(): ConfigStore {
+  let current = EMPTY_CONFIG_DOCUMENT;
+  return {
+    kind: "memory",
+    load: () => Promise.resolve(current),
+    save(doc) {
+      current = doc;
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Local file config store: the document is kept as pretty-printed JSON in CONFIG_FILE.
+ */
+function createFileConfigStore(path: string): ConfigStore {
+  return {
+    kind: "file",
+    async load() {
+      try {
+        return { ...EMPTY_CONFIG_DOCUMENT, ...JSON.parse(await Deno.readTextFile(path)) };
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          return EMPTY_CONFIG_DOCUMENT;
+        }
+        throw error;
+      }
+    },
+    async save(doc) {
+      await Deno.writeTextFile(path, JSON.stringify(doc, null, 2) + "\n");
+    },
+  };
+}
+
+/**
+ * Deno KV config store (Deno Deploy). Every isolate watches the key, so an
+ * update made through one of them reaches all the others.
+ */
+function createKvConfigStore(kv: Deno.Kv): ConfigStore {
+  const key = ["config"];
+  return {
+    kind: "kv",
+    async load() {
+      return (await kv.get<ConfigDocument>(key)).value ?? EMPTY_CONFIG_DOCUMENT;
+    },
+    async save(doc) {
+      await kv.set(key, doc);
+    },
+    watch(onChange) {
+      (async () => {
+        for await (const [entry] of kv.watch<[ConfigDocument]>([key])) {
+          onChange(entry.value ?? EMPTY_CONFIG_DOCUMENT);
+        }
+      })().catch((error) => log("error", "Config watch stopped", { error }));
+    },
+  };
+}
+
+let configStore: ConfigStore = createMemoryConfigStore();
+let configDocument: ConfigDocument = EMPTY_CONFIG_DOCUMENT;
+let configSources = startupConfig.sources;
+let configErrors = startupConfig.errors;
+let configLoading: Promise<void> | null = null;
+
+/**
+ * Makes `next` the current config and rebuilds everything derived from it.
+ * Cookies already in the pool keep their health; the model registry is
+ * rebuilt unless it holds the upstream catalog (refreshed on its own).
+ */
+function applyConfig(next: ProxyConfig): void {
+  config = next;
+  loadCookiePool(next.infiniax_cookies);
+  apiKeyPolicies = buildApiKeyPolicies(next.proxy_api_keys);
+  quotaRules = buildQuotaRules(next.usage_quotas);
+  modelAliases = next.model_aliases;
+  modelRoutes = next.model_routes.map((r) => ({ model: r.model || "*", traits: r.traits ?? [], targets: r.targets }));
+  modelFallbacks = next.model_fallbacks;
+  if (modelSource !== "upstream" || next.models_refresh_minutes <= 0) {
+    setModelRegistry(localModels(), "builtin");
+  }
+}
+
+applyConfig(config);
+
+/**
+ * Resolves and applies a config document. Invalid settings in it are
+ * logged and ignored (the environment value stays in effect).
+ */
+function applyConfigDocument(doc: ConfigDocument): void {
+  const resolved = resolveConfig(doc.settings);
+  for (const error of resolved.errors.filter((e) => e.source === "config")) {
+    log("error", "Invalid setting in config document, ignored", { error: error.message });
+  }
+  configDocument = doc;
+  configSources = resolved.sources;
+  configErrors = resolved.errors;
+  applyConfig(resolved.config);
+}
+
+/**
+ * Opens the config store and applies its document (once; later calls
+ * share the result). CONFIG_STORE: "kv" | "file" | "memory"; defaults
+ * to "kv" on Deno Deploy, "memory" elsewhere. Falls back to memory if
+ * the chosen store cannot be opened.
+ */
+function ensureConfigLoaded(): Promise<void> {
+  if (!configLoading) {
+    configLoading = (async () => {
+      const kind = CONFIG_STORE || (Deno.env.get("DENO_DEPLOYMENT_ID") ? "kv" : "memory");
+      try {
+        if (kind === "kv") {
+          configStore = createKvConfigStore(await Deno.openKv());
+        } else if (kind === "file") {
+          configStore = createFileConfigStore(CONFIG_FILE);
+        }
+        applyConfigDocument(await configStore.load());
+        configStore.watch?.((doc) => {
+          if (doc.updated_at !== configDocument.updated_at) {
+            applyConfigDocument(doc);
+            log("info", "Config reloaded", { updated_at: doc.updated_at });
+          }
+        });
+      } catch (error) {
+        log("error", "Cannot open config store, falling back to memory", { store: kind, error });
+        configStore = createMemoryConfigStore();
+      }
+    })();
+  }
+  return configLoading;
+}
+
+/**
+ * The current config as shown by /admin/config (secrets masked).
+ */
+function configView(): Record<string, unknown> {
+  const settings: Record<string, unknown> = {};
+  for (const [key, setting] of Object.entries(CONFIG_SETTINGS) as Array<[keyof ProxyConfig, ConfigSetting<unknown>]>) {
+    settings[key] = setting.mask ? setting.mask(config[key]) : config[key];
+  }
+  return {
+    store: configStore.kind,
+    updated_at: configDocument.updated_at,
+    config: settings,
+    sources: configSources,
+    errors: configErrors,
+  };
+}
+
+/**
+ * Applies a PATCH /admin/config body: each key overrides one setting,
+ * null removes the override (back to the environment value). A secret sent
+ * back in its masked form is left unchanged. The whole patch is rejected
+ * if any key is unknown or any value is invalid.
+ */
+async function updateConfig(patch: unknown): Promise<{ view: Record<string, unknown> } | { error: Response }> {
+  if (!isRecord(patch)) {
+    return { error: errorResponse("Request body must be a JSON object of settings", 400) };
+  }
 
-    // Handle streaming response
-    if (isStreaming) {
-      return handleStreamingResponse(upstreamResponse, openaiReq.model);
+  const settings = { ...configDocument.settings };
+  for (const [key, value] of Object.entries(patch)) {
+    const setting = CONFIG_SETTINGS[key as keyof ProxyConfig] as ConfigSetting<unknown> | undefined;
+    if (!setting) {
+      return { error: errorResponse(`Unknown setting '${key}'`, 400, "unknown_setting") };
     }
+    const current = config[key as keyof ProxyConfig];
+    if (value === null) {
+      delete settings[key];
+    } else if (!setting.mask || JSON.stringify(value) !== JSON.stringify(setting.mask(current))) {
+      // Entries sent back masked (e.g. the rest of a list after adding one) keep their secret
+      settings[key] = setting.unmask ? setting.unmask(value, current) : value;
+    }
+  }
+
+  const problems = resolveConfig(settings).errors.filter((e) => e.source === "config");
+  if (problems.length > 0) {
+    return {
+      error: errorResponse(`Invalid settings: ${problems.map((e) => e.message).join("; ")}`, 400, "invalid_setting"),
+    };
+  }
+
+  const doc = { settings, updated_at: new Date().toISOString() };
+  await configStore.save(doc);
+  applyConfigDocument(doc);
+  log("info", "Config updated", { settings: Object.keys(patch) });
+  return { view: configView() };
+}
+
+// ============================================================================
+// Models Handler
+// ============================================================================
+
+function ownedBy(model: ModelInfo): string {
+  return model.provider.toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Handles GET /v1/models requests.
+ * Returns a list of available models in OpenAI format (infiniax chat
+ * models, then local embedding models), limited to the models the
+ * caller's API key may use.
+ * 
+ * Requirements: 6.1, 6.2
+ */
+async function handleModels(policy: ApiKeyPolicy): Promise<Response> {
+  await ensureModelsFresh();
+  const created = Math.floor(Date.now() / 1000);
+  
+  const models = {
+    object: "list",
+    data: [
+      ...[...modelRegistry.values()].map((m) => ({ id: m.id, owned_by: ownedBy(m) })),
+      ...[...embeddingProviders.values()].map((p) => ({ id: p.id, owned_by: p.owned_by ?? "local" })),
+    ].filter((m) => isModelAllowed(policy, m.id)).map((m) => ({
+      id: m.id,
+      object: "model",
+      created: created,
+      owned_by: m.owned_by,
+    })),
+  };
+
+  return new Response(JSON.stringify(models), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Handles GET /v1/models/{id} requests.
+ * Returns the model with its metadata; models the caller's API key may not
+ * use are reported as not found.
+ */
+async function handleModel(policy: ApiKeyPolicy, id: string): Promise<Response> {
+  const embedding = embeddingProviders.get(id);
+  if (embedding && isModelAllowed(policy, id)) {
+    return new Response(JSON.stringify({
+      id,
+      object: "model",
+      created: Math.floor(Date.now() / 1000),
+      owned_by: embedding.owned_by ?? "local",
+      capabilities: { embeddings: true },
+    }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const model = await findModel(resolveAlias(id));
+  if (!model || !isModelAllowed(policy, model.id)) {
+    return modelNotFound(id);
+  }
+
+  return new Response(JSON.stringify({
+    id: model.id,
+    object: "model",
+    created: Math.floor(Date.now() / 1000),
+    owned_by: ownedBy(model),
+    name: model.name,
+    provider: model.provider,
+    description: model.description,
+    tier: model.tier,
+    context_window: model.context_window,
+    capabilities: model.capabilities,
+  }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// ============================================================================
+// Admin Handlers
+// ============================================================================
+
+/**
+ * Handles GET /admin/pool requests.
+ * Returns the health of every pooled cookie (cookie values are masked).
+ */
+function handleAdminPool(): Response {
+  const now = Date.now();
+
+  const status = {
+    strategy: config.cookie_strategy,
+    cooldown_seconds: config.cookie_cooldown_seconds,
+    total: cookiePool.length,
+    healthy: cookiePool.filter((c) => c.benchedUntil <= now).length,
+    cookies: cookiePool.map((c) => ({
+      id: c.id,
+      cookie: maskCookie(c.cookie),
+      status: c.benchedUntil > now ? "benched" : "healthy",
+      benched_until: c.benchedUntil > now ? new Date(c.benchedUntil).toISOString() : null,
+      last_used: c.lastUsed ? new Date(c.lastUsed).toISOString() : null,
+      last_status: c.lastStatus,
+      successes: c.successes,
+      failures: c.failures,
+    })),
+  };
+
+  return new Response(JSON.stringify(status), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Handles GET and PATCH /admin/config requests.
+ * GET returns the current settings with their source (default, env or
+ * config) and any invalid values; PATCH updates them without a restart.
+ */
+async function handleAdminConfig(req: Request): Promise<Response> {
+  if (req.method === "GET") {
+    return new Response(JSON.stringify(configView()), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  let patch: unknown;
+  try {
+    patch = await req.json();
+  } catch {
+    return errorResponse("Invalid JSON", 400);
+  }
+  const result = await updateConfig(patch);
+  if ("error" in result) {
+    return result.error;
+  }
+  return new Response(JSON.stringify(result.view), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Handles GET /admin/stats requests.
+ * Returns live stats of this instance: requests in flight, per-route
+ * totals, the most recent requests (newest first) and upstream state.
+ */
+function handleAdminStats(): Response {
+  const now = Date.now();
+  const routes = [...requestStats.routes].map(([route, r]) => ({
+    route,
+    requests: r.requests,
+    errors: r.errors,
+    avg_ms: Math.round(r.totalMs / r.requests),
+  }));
+
+  const stats = {
+    started_at: new Date(requestStats.startedAt).toISOString(),
+    uptime_seconds: Math.round((now - requestStats.startedAt) / 1000),
+    requests: {
+      in_flight: requestStats.active.size,
+      total: routes.reduce((sum, r) => sum + r.requests, 0),
+      errors: routes.reduce((sum, r) => sum + r.errors, 0),
+      by_route: routes.sort((a, b) => b.requests - a.requests),
+      recent: [...requestStats.recent].reverse(),
+    },
+    upstream: {
+      cookies: cookiePool.length,
+      healthy_cookies: cookiePool.filter((c) => c.benchedUntil <= now).length,
+      active: activeUpstream,
+      queued: upstreamQueue.length,
+      max_concurrent: config.max_concurrent_upstream,
+    },
+    models: {
+      source: modelSource,
+      count: modelRegistry.size,
+      embeddings: embeddingProviders.size,
+    },
+  };
+
+  return new Response(JSON.stringify(stats), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
-    // Handle non-streaming response
-    return handleNonStreamingResponse(upstreamResponse, openaiReq.model);
-  } catch (error) {
-    // Catch-all for unexpected errors (Requirements: 7.2 - Unknown errors → 500)
-    console.error("Unexpected error in handleChatCompletions:", error);
-    return errorResponse("Internal server error", 500);
-  }
+/**
+ * Parses a time query parameter (ISO date/time or epoch ms).
+ */
+function parseTimeParam(value: string | null, fallback: number): number {
+  if (!value) return fallback;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? fallback : time;
 }
 
 /**
- * Processes streaming response from infiniax and converts to OpenAI SSE format.
- * infiniax format: data: {"chunk":"text"}\n\n
- * OpenAI format: data: {"id":...,"choices":[{"delta":{"content":"text"}}]}\n\n
- * Requirements: 4.1, 4.2, 4.3, 4.4
+ * Handles GET /admin/usage requests.
+ * Query parameters:
+ * - since / until: ISO date or epoch ms (default: last 24 hours)
+ * - group_by: comma-separated fields among caller, model, route, day (default: caller,model)
+ * Returns aggregated usage rows plus overall totals.
  */
-function handleStreamingResponse(
-  upstreamResponse: Response,
-  model: string
-): Response {
-  const responseId = generateId();
-  const created = Math.floor(Date.now() / 1000);
-  let isFirst = true;
-  let buffer = '';
+async function handleAdminUsage(url: URL): Promise<Response> {
+  const until = parseTimeParam(url.searchParams.get("until"), Date.now());
+  const since = parseTimeParam(url.searchParams.get("since"), until - 24 * 3600 * 1000);
+  const groupBy = (url.searchParams.get("group_by") || "caller,model")
+    .split(",")
+    .map((g) => g.trim())
+    .filter((g) => ["caller", "model", "route", "day"].includes(g));
 
-  const body = upstreamResponse.body;
-  if (!body) {
-    return errorResponse("No response body from upstream", 502);
-  }
+  const store = await getUsageStore();
+  const records = await store.list(since, until);
 
-  const transformStream = new TransformStream<Uint8Array, Uint8Array>({
-    transform(chunk, controller) {
-      try {
-        buffer += new TextDecoder().decode(chunk);
-        
-        // Process complete SSE messages (ending with \n\n)
-        const messages = buffer.split('\n\n');
-        buffer = messages.pop() || ''; // Keep incomplete message in buffer
-        
-        for (const msg of messages) {
-          if (msg.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(msg.slice(6));
-              if (data.chunk) {
-                const sseChunk = transformStreamChunk(data.chunk, model, responseId, created, isFirst);
-                isFirst = false;
-                controller.enqueue(new TextEncoder().encode(sseChunk));
-              }
-              // Skip done messages, we'll send our own [DONE]
-            } catch {
-              // Skip invalid JSON
-            }
-          }
-        }
-      } catch (error) {
-        // Log error but continue processing (Requirements: 4.4 - graceful handling)
-        console.error("Error processing stream chunk:", error);
-      }
-    },
-    flush(controller) {
-      // Process any remaining buffer
-      if (buffer.startsWith('data: ')) {
-        try {
-          const data = JSON.parse(buffer.slice(6));
-          if (data.chunk) {
-            const sseChunk = transformStreamChunk(data.chunk, model, responseId, created, isFirst);
-            controller.enqueue(new TextEncoder().encode(sseChunk));
-          }
-        } catch {
-          // Skip invalid JSON
-        }
-      }
-      // Send stream end marker
-      const endChunk = createStreamEndChunk(model, responseId, created);
-      controller.enqueue(new TextEncoder().encode(endChunk));
-    },
+  const newRow = () => ({
+    requests: 0,
+    errors: 0,
+    web_search_requests: 0,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    avg_latency_ms: 0,
   });
 
-  // Handle upstream connection failures during streaming (Requirements: 4.4)
-  const transformedBody = body.pipeThrough(transformStream);
+  const rows = new Map<string, Record<string, string | number>>();
+  const totals = newRow();
 
-  return new Response(transformedBody, {
+  for (const rec of records) {
+    const group: Record<string, string> = {};
+    for (const field of groupBy) {
+      group[field] = field === "day" ? periodId("daily", rec.timestamp) : String(rec[field as keyof UsageRecord]);
+    }
+    const id = JSON.stringify(group);
+    const row = rows.get(id) || { ...group, ...newRow() };
+
+    for (const target of [row, totals] as Array<Record<string, string | number>>) {
+      const n = (target.requests as number) + 1;
+      target.avg_latency_ms = Math.round(((target.avg_latency_ms as number) * (n - 1) + rec.latency_ms) / n);
+      target.requests = n;
+      target.errors = (target.errors as number) + (rec.outcome === "error" ? 1 : 0);
+      target.web_search_requests = (target.web_search_requests as number) + (rec.web_search ? 1 : 0);
+      target.prompt_tokens = (target.prompt_tokens as number) + rec.prompt_tokens;
+      target.completion_tokens = (target.completion_tokens as number) + rec.completion_tokens;
+      target.total_tokens = (target.total_tokens as number) + rec.total_tokens;
+    }
+    rows.set(id, row);
+  }
+
+  const report = {
+    store: store.kind,
+    since: new Date(since).toISOString(),
+    until: new Date(until).toISOString(),
+    group_by: groupBy,
+    totals,
+    data: [...rows.values()].sort((a, b) => (b.total_tokens as number) - (a.total_tokens as number)),
+    quotas: quotaRules.map((r) => ({
+      key: r.key,
+      model: r.model,
+      period: r.period,
+      max_requests: r.maxRequests ?? null,
+      max_tokens: r.maxTokens ?? null,
+    })),
+  };
+
+  return new Response(JSON.stringify(report), {
     status: 200,
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      "Connection": "keep-alive",
-    },
+    headers: { "Content-Type": "application/json" },
   });
 }
 
+// ============================================================================
+// Admin Dashboard
+// ============================================================================
+
 /**
- * Parses infiniax SSE response and extracts content chunks.
- * infiniax format: data: {"chunk":"text"}\n\ndata: {"done":true}\n\n
+ * Page served by GET /admin: live stats, cookie health, the config editor
+ * and a chat playground. It asks for ADMIN_API_KEY (kept in localStorage)
+ * and calls the admin API with it; the playground calls /v1/* with a proxy key.
  */
-function parseInfiniaxSSE(sseText: string): string {
-  const lines = sseText.split('\n');
-  let content = '';
-  
-  for (const line of lines) {
-    if (line.startsWith('data: ')) {
-      try {
-        const data = JSON.parse(line.slice(6));
-        if (data.chunk) {
-          content += data.chunk;
-        }
-      } catch {
-        // Skip invalid JSON lines
-      }
-    }
+const ADMIN_DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>infiniax-deno-proxy</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 0; background: #f6f7f9; color: #1f2328; }
+  header { display: flex; gap: 8px; align-items: center; padding: 10px 20px; background: #1f2328; color: #fff; }
+  header h1 { font-size: 16px; margin: 0; flex: 1; }
+  main { display: grid; grid-template-columns: repeat(auto-fit, minmax(440px, 1fr)); gap: 16px; padding: 16px 20px; }
+  section { background: #fff; border: 1px solid #d8dee4; border-radius: 6px; padding: 12px 16px; min-width: 0; }
+  h2 { font-size: 14px; margin: 0 0 8px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid #eaeef2; white-space: nowrap; }
+  pre, textarea { font: 12px/1.4 ui-monospace, monospace; }
+  pre { background: #f6f7f9; padding: 8px; overflow: auto; max-height: 360px; margin: 0; }
+  textarea { width: 100%; box-sizing: border-box; min-height: 80px; }
+  input, select, button { font: inherit; }
+  .row { display: flex; gap: 8px; margin: 8px 0; align-items: center; }
+  .row > input, .row > select { flex: 1; min-width: 0; }
+  .ok { color: #1a7f37; } .bad { color: #cf222e; } .muted { color: #656d76; }
+  header .ok { color: #4ac26b; } header .bad { color: #ff8182; }
+  #chat-log { height: 280px; overflow: auto; background: #f6f7f9; padding: 8px; white-space: pre-wrap; }
+  #chat-log b { display: block; margin-top: 6px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>infiniax-deno-proxy</h1>
+  <span id="status" class="muted">not connected</span>
+  <input id="admin-key" type="password" placeholder="ADMIN_API_KEY">
+  <button id="connect">Connect</button>
+</header>
+<main>
+  <section>
+    <h2>Requests</h2>
+    <div id="summary" class="muted">-</div>
+    <table id="routes"></table>
+  </section>
+  <section>
+    <h2>Upstream</h2>
+    <div id="upstream" class="muted">-</div>
+    <table id="cookies"></table>
+  </section>
+  <section>
+    <h2>Recent requests</h2>
+    <table id="recent"></table>
+  </section>
+  <section>
+    <h2>Configuration</h2>
+    <pre id="config">-</pre>
+    <p class="muted">Settings to change, as JSON (null restores the environment value):</p>
+    <textarea id="config-patch">{}</textarea>
+    <div class="row"><button id="config-save">Apply</button><span id="config-result" class="muted"></span></div>
+  </section>
+  <section>
+    <h2>Playground</h2>
+    <div class="row">
+      <input id="proxy-key" type="password" placeholder="Proxy API key">
+      <select id="model"></select>
+    </div>
+    <div id="chat-log"></div>
+    <div class="row"><input id="prompt" placeholder="Message"><button id="send">Send</button><button id="reset">Clear</button></div>
+  </section>
+</main>
+<script>
+const $ = (id) => document.getElementById(id);
+let adminKey = localStorage.getItem("adminKey") || "";
+let messages = [];
+$("admin-key").value = adminKey;
+$("proxy-key").value = localStorage.getItem("proxyKey") || "";
+
+async function call(path, key, init = {}) {
+  const headers = { "Content-Type": "application/json" };
+  if (key) headers.Authorization = "Bearer " + key;
+  const res = await fetch(path, { ...init, headers });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error((body.error && body.error.message) || "HTTP " + res.status);
   }
-  
-  return content;
+  return res;
 }
 
-/**
- * Processes non-streaming response from infiniax and converts to OpenAI format.
- * Requirements: 5.1, 5.2, 5.3
- */
-async function handleNonStreamingResponse(
-  upstreamResponse: Response,
-  model: string
-): Promise<Response> {
+function fill(table, head, rows) {
+  table.replaceChildren();
+  const tr = table.insertRow();
+  for (const name of head) tr.appendChild(document.createElement("th")).textContent = name;
+  for (const row of rows) {
+    const r = table.insertRow();
+    for (const cell of row) r.insertCell().textContent = cell == null ? "" : String(cell);
+  }
+}
+
+function setStatus(text, ok) {
+  $("status").textContent = text;
+  $("status").className = ok ? "ok" : "bad";
+}
+
+async function refresh() {
+  if (!adminKey) return;
   try {
-    // Collect all chunks into complete content
-    const rawContent = await upstreamResponse.text();
-    
-    // Parse infiniax SSE format to extract actual content
-    const content = parseInfiniaxSSE(rawContent);
-    
-    // Transform to OpenAI response format
-    const openaiResponse = transformResponse(content, model);
+    const [stats, pool] = await Promise.all([
+      call("/admin/stats", adminKey).then((r) => r.json()),
+      call("/admin/pool", adminKey).then((r) => r.json()),
+    ]);
+    setStatus("connected", true);
+    const q = stats.requests;
+    $("summary").textContent = q.total + " requests, " + q.errors + " errors, " + q.in_flight +
+      " in flight, up " + Math.round(stats.uptime_seconds / 60) + " min";
+    fill($("routes"), ["route", "requests", "errors", "avg ms"],
+      q.by_route.map((r) => [r.route, r.requests, r.errors, r.avg_ms]));
+    fill($("recent"), ["time", "route", "caller", "model", "status", "ms"],
+      q.recent.map((r) => [new Date(r.time).toLocaleTimeString(), r.method + " " + r.route, r.caller, r.model,
+        r.error_class ? r.status + " " + r.error_class : r.status, r.duration_ms]));
+    const u = stats.upstream;
+    $("upstream").textContent = u.healthy_cookies + "/" + u.cookies + " cookies healthy (" + pool.strategy + "), " +
+      u.active + " active, " + u.queued + " queued, " + stats.models.count + " models (" + stats.models.source + ")";
+    fill($("cookies"), ["id", "cookie", "status", "ok", "failed", "last status"],
+      pool.cookies.map((c) => [c.id, c.cookie, c.status, c.successes, c.failures, c.last_status]));
+  } catch (error) {
+    setStatus(error.message, false);
+  }
+}
 
-    return new Response(JSON.stringify(openaiResponse), {
-      status: 200,
-      headers: { "Content-Type": "application/json" },
-    });
+async function loadConfig() {
+  try {
+    const view = await (await call("/admin/config", adminKey)).json();
+    $("config").textContent = JSON.stringify(view, null, 2);
   } catch (error) {
-    // Handle errors during response processing (Requirements: 5.3)
-    console.error("Error processing non-streaming response:", error);
-    return errorResponse("Upstream error", 502);
+    $("config").textContent = error.message;
+  }
+}
+
+async function loadModels() {
+  try {
+    const list = await (await call("/v1/models", $("proxy-key").value)).json();
+    $("model").replaceChildren(...list.data.map((m) => new Option(m.id, m.id)));
+  } catch (error) {
+    $("model").replaceChildren(new Option(error.message, ""));
+  }
+}
+
+$("connect").onclick = () => {
+  adminKey = $("admin-key").value.trim();
+  localStorage.setItem("adminKey", adminKey);
+  refresh();
+  loadConfig();
+};
+
+$("config-save").onclick = async () => {
+  try {
+    const res = await call("/admin/config", adminKey, { method: "PATCH", body: $("config-patch").value });
+    $("config").textContent = JSON.stringify(await res.json(), null, 2);
+    $("config-result").textContent = "applied";
+    $("config-result").className = "ok";
+  } catch (error) {
+    $("config-result").textContent = error.message;
+    $("config-result").className = "bad";
   }
+};
+
+$("proxy-key").onchange = () => {
+  localStorage.setItem("proxyKey", $("proxy-key").value);
+  loadModels();
+};
+
+$("reset").onclick = () => {
+  messages = [];
+  $("chat-log").replaceChildren();
+};
+
+function appendLine(role) {
+  $("chat-log").appendChild(document.createElement("b")).textContent = role;
+  return $("chat-log").appendChild(document.createElement("span"));
 }
 
+$("send").onclick = async () => {
+  const content = $("prompt").value.trim();
+  if (!content) return;
+  $("prompt").value = "";
+  messages.push({ role: "user", content });
+  appendLine("user").textContent = content;
+  const out = appendLine("assistant");
+  let answer = "";
+  try {
+    const res = await call("/v1/chat/completions", $("proxy-key").value, {
+      method: "POST",
+      body: JSON.stringify({ model: $("model").value, messages, stream: true }),
+    });
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split("\\n");
+      buffer = lines.pop();
+      for (const line of lines) {
+        if (!line.startsWith("data: ") || line === "data: [DONE]") continue;
+        const chunk = JSON.parse(line.slice(6));
+        const delta = chunk.choices && chunk.choices[0] && chunk.choices[0].delta;
+        if (delta && delta.content) {
+          answer += delta.content;
+          out.textContent = answer;
+          $("chat-log").scrollTop = $("chat-log").scrollHeight;
+        }
+      }
+    }
+    messages.push({ role: "assistant", content: answer });
+  } catch (error) {
+    out.textContent = error.message;
+    out.className = "bad";
+    messages.pop();
+  }
+};
+
+$("prompt").onkeydown = (event) => {
+  if (event.key === "Enter") $("send").click();
+};
+
+loadModels();
+if (adminKey) loadConfig();
+refresh();
+setInterval(refresh, 3000);
+</script>
+</body>
+</html>
+`;
+
 // ============================================================================
-// Models Handler
+// Main Router
 // ============================================================================
 
 /**
- * Official model list from infiniax.ai
- * Source: https://infiniax.ai (extracted from frontend)
+ * Splits the rest of a path after prefix into URL-decoded segments.
+ * Malformed escapes (e.g. "%E0") are a 400 rather than a URIError.
  */
-const INFINIAX_MODELS = [
-  // Featured FREE models
-  { id: "meta-llama/llama-3.3-70b-instruct:free", name: "Llama 3.3 70B", provider: "Meta", description: "FREE - High quality open-source" },
-  { id: "amazon/nova-2-lite-v1:free", name: "Nova 2 Lite", provider: "Amazon", description: "FREE - Fast and efficient" },
-  { id: "arcee-ai/trinity-mini:free", name: "Trinity Mini", provider: "Arcee AI", description: "FREE - Compact reasoning model" },
-  { id: "deepseek/deepseek-v3.2-exp", name: "DeepSeek 3.2 Exp", provider: "DeepSeek", description: "FREE - Next-gen experimental" },
-  { id: "mistralai/ministral-14b-2512", name: "Mistral 14B", provider: "Mistral AI", description: "FREE - Fast European AI" },
-  { id: "z-ai/glm-4.6v", name: "GLM 4.6v", provider: "Z.ai", description: "FREE - Advanced reasoning" },
-  // Premium models
-  { id: "anthropic/claude-opus-4.5", name: "Claude Opus 4.5", provider: "Anthropic", description: "PREMIUM - Advanced Coding & Writing" },
-  { id: "google/gemini-3-pro-preview", name: "Gemini 3 Pro", provider: "Google", description: "PREMIUM - Peak Intelligence" },
-  { id: "openai/gpt-5-pro", name: "GPT-5 Pro", provider: "OpenAI", description: "PREMIUM - Most Expensive, Best output" },
-  // OpenAI models
-  { id: "openai/gpt-5.1", name: "GPT-5.1", provider: "OpenAI", description: "FREE - Enhanced GPT-5 model" },
-  { id: "openai/gpt-5.1-chat", name: "GPT-5.1 Chat", provider: "OpenAI", description: "FREE - Optimized for conversations" },
-  { id: "openai/gpt-5.1-codex-max", name: "GPT-5.1 Codex Max", provider: "OpenAI", description: "FREE - Advanced reasoning for large tasks" },
-  { id: "openai/gpt-5", name: "GPT-5", provider: "OpenAI", description: "FREE - Next-generation flagship model" },
-  { id: "openai/gpt-5-mini", name: "GPT-5 Mini", provider: "OpenAI", description: "FREE - Fast and efficient GPT-5" },
-  { id: "openai/gpt-5-nano", name: "GPT-5 Nano", provider: "OpenAI", description: "FREE - Ultra-lightweight GPT-5" },
-  { id: "openai/gpt-4o", name: "GPT-4o", provider: "OpenAI", description: "FREE - Multimodal GPT-4 optimized" },
-  { id: "openai/gpt-4-turbo", name: "GPT-4 Turbo", provider: "OpenAI", description: "FREE - Previous generation flagship" },
-  { id: "openai/gpt-3.5-turbo", name: "GPT-3.5 Turbo", provider: "OpenAI", description: "FREE - Fast and economical" },
-  // Anthropic models
-  { id: "anthropic/claude-opus-4.1", name: "Claude Opus 4.1", provider: "Anthropic", description: "FREE - Most capable Claude model" },
-  { id: "anthropic/claude-sonnet-4", name: "Claude Sonnet 4", provider: "Anthropic", description: "FREE - Balanced performance and speed" },
-  { id: "anthropic/claude-haiku-4.5", name: "Claude Haiku 4.5", provider: "Anthropic", description: "FREE - Lightning-fast responses" },
-  { id: "anthropic/claude-sonnet-4.5", name: "Claude Sonnet 4.5", provider: "Anthropic", description: "FREE - Advanced reasoning and coding" },
-  { id: "anthropic/claude-3.7-sonnet", name: "Claude 3.7 Sonnet", provider: "Anthropic", description: "FREE - Enhanced Claude 3 generation" },
-  { id: "anthropic/claude-3.5-haiku", name: "Claude 3.5 Haiku", provider: "Anthropic", description: "FREE - Fast and efficient Claude" },
-  { id: "anthropic/claude-3-opus", name: "Claude 3 Opus", provider: "Anthropic", description: "FREE - Most capable Claude model" },
-  // Google models
-  { id: "google/gemini-2.5-pro", name: "Gemini 2.5 Pro", provider: "Google", description: "FREE - Advanced multimodal" },
-  { id: "google/gemini-2.5-flash", name: "Gemini 2.5 Flash", provider: "Google", description: "FREE - Fast multimodal AI" },
-  { id: "google/gemini-flash-1.5", name: "Gemini 1.5 Flash", provider: "Google", description: "FREE - Efficient multimodal model" },
-  // X.AI models
-  { id: "x-ai/grok-4", name: "Grok 4", provider: "X.AI", description: "FREE - Most capable Grok model" },
-  { id: "x-ai/grok-4-fast", name: "Grok 4 Fast", provider: "X.AI", description: "FREE - Lightning-fast Grok" },
-  { id: "x-ai/grok-4.1-fast", name: "Grok 4.1 Fast", provider: "X.AI", description: "FREE - Lightning-fast Grok" },
-  { id: "x-ai/grok-4.1-fast:reasoning", name: "Grok 4.1 Fast Reasoning", provider: "X.AI", description: "FREE - Enhanced reasoning mode" },
-  { id: "x-ai/grok-code-fast-1", name: "Grok Code Fast", provider: "X.AI", description: "FREE - Specialized for coding" },
-  // Meta models
-  { id: "meta-llama/llama-4-scout", name: "Llama 4 Scout", provider: "Meta", description: "FREE - Fast and efficient Llama 4" },
-  { id: "meta-llama/llama-4-maverick", name: "Llama 4 Maverick", provider: "Meta", description: "FREE - Advanced Llama 4 model" },
-  // DeepSeek models
-  { id: "deepseek/deepseek-v3.1-terminus", name: "DeepSeek 3.1 Terminus", provider: "DeepSeek", description: "FREE - Advanced reasoning model" },
-  { id: "deepseek/deepseek-chat", name: "DeepSeek Chat", provider: "DeepSeek", description: "FREE - Efficient reasoning" },
-  // Qwen models
-  { id: "qwen/qwen3-max", name: "Qwen 3 Max", provider: "Qwen", description: "FREE - Top-tier reasoning model" },
-  { id: "qwen/qwen3-coder-plus", name: "Qwen 3 Coder Plus", provider: "Qwen", description: "FREE - Advanced coding model" },
-  { id: "qwen/qwen3-coder-flash", name: "Qwen 3 Coder Flash", provider: "Qwen", description: "FREE - Fast coding assistant" },
-  { id: "qwen/qwen-2.5-72b-instruct", name: "Qwen 2.5 72B", provider: "Qwen", description: "FREE - Multilingual excellence" },
-  { id: "qwen/qwen-turbo", name: "Qwen Turbo", provider: "Qwen", description: "FREE - Ultra-fast responses" },
-  // Mistral models
-  { id: "mistralai/mistral-large", name: "Mistral Large", provider: "Mistral AI", description: "FREE - European flagship model" },
-  { id: "mistralai/mistral-medium-3.1", name: "Mistral Medium", provider: "Mistral AI", description: "FREE - Balanced capabilities" },
-  // Other models
-  { id: "minimax/minimax-m2", name: "Minimax M2", provider: "Minimax", description: "FREE - Advanced reasoning model" },
-  { id: "moonshotai/kimi-k2-thinking", name: "Moonshot Kimi K2", provider: "Moonshot", description: "FREE - Deep thinking capabilities" },
-  { id: "microsoft/phi-3-medium-128k-instruct", name: "Phi-3 Medium", provider: "Microsoft", description: "FREE - Compact and capable" },
-  { id: "cohere/command-r-plus-08-2024", name: "Command R+", provider: "Cohere", description: "FREE - Enterprise-grade RAG" },
-  { id: "z-ai/glm-4.6", name: "GLM 4.6", provider: "Z.ai", description: "FREE - Advanced reasoning model" },
-  { id: "z-ai/glm-4.6:exacto", name: "GLM 4.6 Exacto", provider: "Z.ai", description: "FREE - Optimized precision model" },
-];
+function pathSegments(path: string, prefix: string): { segments: string[] } | { error: Response } {
+  try {
+    return { segments: path.slice(prefix.length).split("/").map(decodeURIComponent) };
+  } catch {
+    return { error: errorResponse("Invalid percent-encoding in the request path", 400) };
+  }
+}
 
 /**
- * Handles GET /v1/models requests.
- * Returns a list of available models in OpenAI format.
- * 
- * Requirements: 6.1, 6.2
+ * Routes authenticated /v1/* requests to their handlers.
  */
-function handleModels(): Response {
-  const created = Math.floor(Date.now() / 1000);
-  
-  const models = {
-    object: "list",
-    data: INFINIAX_MODELS.map((m) => ({
-      id: m.id,
-      object: "model",
-      created: created,
-      owned_by: m.provider.toLowerCase().replace(/\s+/g, "-"),
-    })),
-  };
+function routeV1(
+  req: Request,
+  path: string,
+  method: string,
+  policy: ApiKeyPolicy
+): Promise<Response> | Response {
+  // Route: POST /v1/chat/completions
+  if (path === "/v1/chat/completions" && method === "POST") {
+    return handleChatCompletions(req, policy);
+  }
 
-  return new Response(JSON.stringify(models), {
-    status: 200,
-    headers: { "Content-Type": "application/json" },
-  });
-}
+  // Route: POST /v1/completions (legacy text completions)
+  if (path === "/v1/completions" && method === "POST") {
+    return handleCompletions(req, policy);
+  }
 
-// ============================================================================
-// Main Router
-// ============================================================================
+  // Route: POST /v1/messages (Anthropic Messages API)
+  if (path === "/v1/messages" && method === "POST") {
+    return handleMessages(req, policy);
+  }
+
+  // Route: POST /v1/embeddings (computed locally)
+  if (path === "/v1/embeddings" && method === "POST") {
+    return handleEmbeddings(req, policy);
+  }
+
+  // Route: POST /v1/responses (OpenAI Responses API)
+  if (path === "/v1/responses" && method === "POST") {
+    return handleResponses(req, policy);
+  }
+
+  // Route: GET/DELETE /v1/responses/{id}
+  if (path.startsWith("/v1/responses/")) {
+    const parsed = pathSegments(path, "/v1/responses/");
+    if ("error" in parsed) {
+      return parsed.error;
+    }
+    const id = parsed.segments.join("/");
+    if (method === "GET") {
+      return handleGetResponse(policy, id);
+    }
+    if (method === "DELETE") {
+      return handleDeleteResponse(policy, id);
+    }
+  }
+
+  // Route: POST /v1/threads
+  if (path === "/v1/threads" && method === "POST") {
+    return handleCreateThread(req, policy);
+  }
+
+  // Route: /v1/threads/{id}[/messages]
+  if (path.startsWith("/v1/threads/")) {
+    return handleThread(req, policy, path, method);
+  }
+
+  // Route: /v1/files[/{id}[/content]]
+  if (path === "/v1/files" || path.startsWith("/v1/files/")) {
+    return handleFiles(req, policy, path, method);
+  }
+
+  // Route: GET/POST /v1/batches
+  if (path === "/v1/batches") {
+    if (method === "POST") {
+      return handleCreateBatch(req, policy);
+    }
+    if (method === "GET") {
+      return handleListBatches(req, policy);
+    }
+  }
+
+  // Route: /v1/batches/{id}[/cancel]
+  if (path.startsWith("/v1/batches/")) {
+    return handleBatch(policy, path, method);
+  }
+
+  // Route: GET /v1/models
+  if (path === "/v1/models" && method === "GET") {
+    return handleModels(policy);
+  }
+
+  // Route: GET /v1/models/{id} (ids contain slashes, e.g. openai/gpt-4o)
+  if (path.startsWith("/v1/models/") && method === "GET") {
+    const parsed = pathSegments(path, "/v1/models/");
+    if ("error" in parsed) {
+      return parsed.error;
+    }
+    return handleModel(policy, parsed.segments.join("/"));
+  }
+
+  return errorResponse("Not Found", 404);
+}
 
 /**
  * Main request handler - routes requests to appropriate handlers.
+ * Every response carries X-Request-Id and is logged as one JSON line.
  * Requirements: 1.1, 7.2
  */
-async function handler(req: Request): Promise<Response> {
+async function handler(req: Request, info?: Deno.ServeHandlerInfo): Promise<Response> {
+  const ctx = startRequest(req);
+  requestStats.active.add(ctx);
+  await ensureConfigLoaded();
+  return await finishRequest(ctx, await routeRequest(req, info));
+}
+
+/**
+ * Routes a request by path and method.
+ */
+async function routeRequest(req: Request, info?: Deno.ServeHandlerInfo): Promise<Response> {
   try {
     const url = new URL(req.url);
     const path = url.pathname;
@@ -532,21 +9147,77 @@ async function handler(req: Request): Promise<Response> {
       });
     }
 
-    // Route: POST /v1/chat/completions
-    if (path === "/v1/chat/completions" && method === "POST") {
-      return handleChatCompletions(req);
+    // All /v1/* routes require a valid API key (when PROXY_API_KEYS is set)
+    if (path.startsWith("/v1/")) {
+      const auth = authenticate(req);
+      if (auth instanceof Response) {
+        return path === "/v1/messages" ? toAnthropicError(auth) : auth;
+      }
+
+      // Per-client rate limit on API calls
+      const rateLimit = method === "POST" ? checkRateLimit(req, auth, info) : null;
+      if (rateLimit && !rateLimit.allowed) {
+        const limited = rateLimitErrorResponse(rateLimit);
+        return path === "/v1/messages" ? toAnthropicError(limited) : limited;
+      }
+      const response = await routeV1(req, path, method, auth);
+      if (rateLimit) {
+        for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+          response.headers.set(name, value);
+        }
+      }
+      return response;
+    }
+
+    // Route: GET /metrics (Prometheus; requires ADMIN_API_KEY like the admin routes)
+    if (path === "/metrics" && method === "GET") {
+      return authenticateAdmin(req) ?? handleMetrics();
+    }
+
+    // Route: GET /admin (dashboard page; its API calls carry the admin key)
+    if ((path === "/admin" || path === "/admin/") && method === "GET") {
+      if (!ADMIN_API_KEY) {
+        return authenticateAdmin(req)!;
+      }
+      return new Response(ADMIN_DASHBOARD_HTML, {
+        status: 200,
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      });
     }
 
-    // Route: GET /v1/models
-    if (path === "/v1/models" && method === "GET") {
-      return handleModels();
+    // Admin routes require ADMIN_API_KEY
+    if (path.startsWith("/admin/")) {
+      const denied = authenticateAdmin(req);
+      if (denied) {
+        return denied;
+      }
+
+      // Route: GET /admin/pool
+      if (path === "/admin/pool" && method === "GET") {
+        return handleAdminPool();
+      }
+
+      // Route: GET /admin/usage
+      if (path === "/admin/usage" && method === "GET") {
+        return handleAdminUsage(url);
+      }
+
+      // Route: GET/PATCH /admin/config
+      if (path === "/admin/config" && (method === "GET" || method === "PATCH")) {
+        return handleAdminConfig(req);
+      }
+
+      // Route: GET /admin/stats
+      if (path === "/admin/stats" && method === "GET") {
+        return handleAdminStats();
+      }
     }
 
     // 404 for all other routes
     return errorResponse("Not Found", 404);
   } catch (error) {
     // Catch-all for unexpected errors at router level (Requirements: 7.2)
-    console.error("Unexpected error in handler:", error);
+    log("error", "Unexpected error in handler", { request_id: requestContext(req).id, error });
     return errorResponse("Internal server error", 500);
   }
 }
@@ -563,12 +9234,29 @@ export default handler;
 // Note: On Deno Deploy, import.meta.main is false, so this won't run
 // Deno Deploy uses the exported default handler instead
 if (import.meta.main) {
-  console.log(`infiniax-deno-proxy starting...`);
-  
-  if (!COOKIE) {
-    console.error("Error: INFINIAX_COOKIE environment variable is not set.");
+  log("info", "infiniax-deno-proxy starting...");
+
+  // Locally, invalid settings are fatal rather than silently defaulted
+  if (startupConfig.errors.length > 0) {
     Deno.exit(1);
   }
+  await ensureConfigLoaded();
+
+  // With the admin API, cookies can still be added through PATCH /admin/config
+  if (cookiePool.length === 0) {
+    log(ADMIN_API_KEY ? "warn" : "error", "INFINIAX_COOKIE or INFINIAX_COOKIES environment variable is not set.");
+    if (!ADMIN_API_KEY) {
+      Deno.exit(1);
+    }
+  }
+  log("info", "Loaded upstream cookies", { cookies: cookiePool.length, strategy: config.cookie_strategy, config_store: configStore.kind });
+
+  if (!apiKeyPolicies) {
+    log("warn", "PROXY_API_KEYS is not set, the proxy accepts any caller.");
+  }
+
+  // Warm the model catalog before the first request
+  ensureModelsFresh();
 
   Deno.serve({ port: PORT }, handler);
 }
@@ -0,0 +1,998 @@
+// Conformance tests: OpenAI request/response shapes, run offline against mock_upstream.ts
+// Run with: deno test --allow-net --allow-env
+
+import { deepStrictEqual, equal, match, ok } from "node:assert/strict";
+import { type MockReply, type MockUpstream, startMockUpstream, textReply } from "./mock_upstream.ts";
+
+// main.ts reads its configuration on load: two cookies to exercise failover,
+// fast retries and cooldowns, the built-in model list (no catalog fetch)
+// and an admin key for the /admin routes
+Deno.env.set("INFINIAX_COOKIES", JSON.stringify(["session=a", "session=b"]));
+Deno.env.set("UPSTREAM_RETRY_BASE_MS", "1");
+Deno.env.set("COOKIE_COOLDOWN_SECONDS", "0.05");
+Deno.env.set("MODELS_REFRESH_MINUTES", "0");
+Deno.env.set("ADMIN_API_KEY", "admin-secret");
+
+const {
+  default: handler,
+  setUpstream,
+  transformRequest,
+  transformStreamChunk,
+  createStreamEndChunk,
+  registerEmbeddingProvider,
+} = await import("./main.ts");
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Runs fn with the proxy pointed at a fresh mock upstream.
+ */
+async function withMock(fn: (mock: MockUpstream) => Promise<void>, ...replies: MockReply[]): Promise<void> {
+  const mock = startMockUpstream();
+  mock.reply(...replies);
+  const previous = setUpstream({ chatUrl: mock.url, modelsUrl: mock.modelsUrl });
+  try {
+    await fn(mock);
+  } finally {
+    setUpstream(previous);
+    await mock.close();
+  }
+}
+
+function chat(body: Record<string, unknown>): Promise<Response> {
+  return handler(new Request("http://localhost/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "openai/gpt-4o", messages: [{ role: "user", content: "Hi" }], ...body }),
+  }));
+}
+
+/**
+ * The fields the tests read from chat.completion.chunk, text_completion
+ * and error events.
+ */
+interface StreamChunk {
+  id?: string;
+  object?: string;
+  choices?: {
+    index?: number;
+    text?: string;
+    delta?: { role?: string; content?: string };
+    finish_reason?: string | null;
+  }[];
+  error?: { type: string; message: string };
+}
+
+/**
+ * Reads an SSE response into its JSON-decoded data payloads; done is true
+ * when the stream ended with [DONE] (and nothing after it).
+ */
+async function readEvents(response: Response): Promise<{ chunks: StreamChunk[]; done: boolean }> {
+  const data = (await response.text())
+    .split("\n\n")
+    .filter((block) => block.startsWith("data: "))
+    .map((block) => block.slice(6));
+  const done = data.at(-1) === "[DONE]";
+  return { chunks: data.slice(0, done ? -1 : undefined).map((d): StreamChunk => JSON.parse(d)), done };
+}
+
+function streamedContent(chunks: StreamChunk[]): string {
+  return chunks.map((c) => c.choices?.[0]?.delta?.content ?? "").join("");
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// Request Transformation
+// ============================================================================
+
+Deno.test("transformRequest maps an OpenAI chat request to infiniax", () => {
+  const result = transformRequest({
+    model: "openai/gpt-4o",
+    messages: [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Hi!" },
+      { role: "user", content: "Weather?" },
+    ],
+    temperature: 0.2,
+    top_p: 0.9,
+    max_tokens: 64,
+    web_search: true,
+  });
+
+  deepStrictEqual(result, {
+    modelId: "openai/gpt-4o",
+    messages: [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Hi!" },
+      { role: "user", content: "Weather?" },
+    ],
+    webSearchEnabled: true,
+    temperature: 0.2,
+    topP: 0.9,
+    maxTokens: 64,
+  });
+});
+
+Deno.test("transformRequest omits parameters the request does not set", () => {
+  const result = transformRequest({ model: "openai/gpt-4o", messages: [{ role: "user", content: "Hi" }] });
+  deepStrictEqual(result, { modelId: "openai/gpt-4o", messages: [{ role: "user", content: "Hi" }] });
+});
+
+Deno.test("transformRequest flattens text content parts", () => {
+  const result = transformRequest({
+    model: "openai/gpt-4o",
+    messages: [{ role: "user", content: [{ type: "text", text: "Hello" }, { type: "text", text: "world" }] }],
+  });
+  equal(result.messages.length, 1);
+  equal(result.messages[0].role, "user");
+  match(String(result.messages[0].content), /Hello[\s\S]*world/);
+});
+
+Deno.test("transformRequest prepends the tool prompt and folds tool results", () => {
+  const result = transformRequest({
+    model: "openai/gpt-4o",
+    messages: [
+      { role: "user", content: "Weather in Paris?" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "18C" },
+    ],
+    tools: [{ type: "function", function: { name: "get_weather", parameters: { type: "object" } } }],
+  });
+
+  equal(result.messages[0].role, "system");
+  match(String(result.messages[0].content), /get_weather/);
+  equal(result.messages[2].role, "assistant");
+  match(String(result.messages[2].content), /<tool_call>/);
+  equal(result.messages[3].role, "user");
+  match(String(result.messages[3].content), /<tool_result tool_call_id="call_1" name="get_weather">\n18C\n<\/tool_result>/);
+});
+
+// ============================================================================
+// Stream Chunks
+// ============================================================================
+
+Deno.test("transformStreamChunk emits chat.completion.chunk deltas", () => {
+  const first = transformStreamChunk("Hel", "openai/gpt-4o", "chatcmpl-1", 1700000000, true);
+  const next = transformStreamChunk("lo", "openai/gpt-4o", "chatcmpl-1", 1700000000);
+
+  ok(first.startsWith("data: ") && first.endsWith("\n\n"));
+  deepStrictEqual(JSON.parse(first.slice(6)), {
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    created: 1700000000,
+    model: "openai/gpt-4o",
+    choices: [{ index: 0, delta: { role: "assistant", content: "Hel" }, finish_reason: null }],
+  });
+  deepStrictEqual(JSON.parse(next.slice(6)).choices, [{ index: 0, delta: { content: "lo" }, finish_reason: null }]);
+});
+
+Deno.test("transformStreamChunk carries tool call deltas", () => {
+  const chunk = transformStreamChunk("", "openai/gpt-4o", "chatcmpl-1", 1700000000, false, [
+    { index: 0, id: "call_1", type: "function", function: { name: "get_weather", arguments: "{}" } },
+  ]);
+  deepStrictEqual(JSON.parse(chunk.slice(6)).choices[0].delta, {
+    tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "get_weather", arguments: "{}" } }],
+  });
+});
+
+Deno.test("createStreamEndChunk sends finish_reason, then [DONE]", () => {
+  const sse = createStreamEndChunk("openai/gpt-4o", "chatcmpl-1", 1700000000);
+  const [finish, done] = sse.split("\n\n").filter(Boolean);
+
+  deepStrictEqual(JSON.parse(finish.slice(6)).choices, [{ index: 0, delta: {}, finish_reason: "stop" }]);
+  equal(done, "data: [DONE]");
+});
+
+Deno.test("createStreamEndChunk puts the usage chunk before [DONE]", () => {
+  const usage = { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 };
+  const sse = createStreamEndChunk("openai/gpt-4o", "chatcmpl-1", 1700000000, "length", usage);
+  const [finish, usageChunk, done] = sse.split("\n\n").filter(Boolean);
+
+  equal(JSON.parse(finish.slice(6)).choices[0].finish_reason, "length");
+  deepStrictEqual(JSON.parse(usageChunk.slice(6)), {
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    created: 1700000000,
+    model: "openai/gpt-4o",
+    choices: [],
+    usage,
+  });
+  equal(done, "data: [DONE]");
+});
+
+// ============================================================================
+// Router
+// ============================================================================
+
+Deno.test("router: health check and unknown routes", async () => {
+  const health = await handler(new Request("http://localhost/"));
+  equal(health.status, 200);
+  equal((await health.json()).status, "ok");
+
+  const missing = await handler(new Request("http://localhost/v1/nope"));
+  equal(missing.status, 404);
+  deepStrictEqual(await missing.json(), {
+    error: { message: "Not Found", type: "invalid_request_error", param: null, code: null },
+  });
+});
+
+Deno.test("router: GET /v1/models lists models in the OpenAI format", async () => {
+  const response = await handler(new Request("http://localhost/v1/models"));
+  equal(response.status, 200);
+  const body = await response.json();
+  equal(body.object, "list");
+  ok(body.data.length > 0);
+  ok(body.data.every((m: { object: string; id: string }) => m.object === "model" && typeof m.id === "string"));
+});
+
+Deno.test("router: malformed percent-encoding in an id is a 400", async () => {
+  for (const path of ["/v1/models/%E0", "/v1/responses/%E0", "/v1/threads/%E0", "/v1/files/%E0/content", "/v1/batches/%E0"]) {
+    const response = await handler(new Request(`http://localhost${path}`));
+    equal(response.status, 400, path);
+    equal((await response.json()).error.type, "invalid_request_error");
+  }
+  equal((await handler(new Request("http://localhost/v1/models/openai%2Fgpt-4o"))).status, 200);
+});
+
+Deno.test("router: invalid chat requests return OpenAI errors", async () => {
+  const response = await handler(new Request("http://localhost/v1/chat/completions", {
+    method: "POST",
+    body: "{",
+  }));
+  equal(response.status, 400);
+  const body = await response.json();
+  equal(body.error.type, "invalid_request_error");
+  ok(response.headers.get("x-request-id"));
+});
+
+Deno.test("router: an invalid response_format pattern is a 400", async () => {
+  const response = await chat({
+    response_format: {
+      type: "json_schema",
+      json_schema: { name: "x", schema: { type: "object", properties: { id: { type: "string", pattern: "([a-z" } } } },
+    },
+  });
+  equal(response.status, 400);
+  const body = await response.json();
+  equal(body.error.code, "invalid_value");
+  match(body.error.message, /\$\.properties\.id/);
+});
+
+// ============================================================================
+// Chat Completions against the mock upstream
+// ============================================================================
+
+Deno.test("chat: non-streaming response matches the chat.completion shape", async () => {
+  await withMock(async (mock) => {
+    const response = await chat({ temperature: 0.5 });
+    equal(response.status, 200);
+    const body = await response.json();
+
+    match(body.id, /^chatcmpl-/);
+    equal(body.object, "chat.completion");
+    equal(body.model, "openai/gpt-4o");
+    equal(typeof body.created, "number");
+    deepStrictEqual(body.choices, [
+      { index: 0, message: { role: "assistant", content: "Hello from the mock" }, finish_reason: "stop" },
+    ]);
+    equal(body.usage.total_tokens, body.usage.prompt_tokens + body.usage.completion_tokens);
+
+    equal(mock.requests.length, 1);
+    ok(mock.requests[0].cookie?.startsWith("session="));
+    deepStrictEqual(mock.requests[0].body, {
+      modelId: "openai/gpt-4o",
+      messages: [{ role: "user", content: "Hi" }],
+      temperature: 0.5,
+    });
+  }, textReply("Hello ", "from the mock"));
+});
+
+Deno.test("chat: streaming response relays chunks and ends with [DONE]", async () => {
+  await withMock(async () => {
+    const response = await chat({ stream: true });
+    equal(response.status, 200);
+    equal(response.headers.get("content-type"), "text/event-stream");
+
+    const { chunks, done } = await readEvents(response);
+    ok(done);
+    equal(chunks[0].object, "chat.completion.chunk");
+    equal(chunks[0].choices?.[0].delta?.role, "assistant");
+    equal(streamedContent(chunks), "Hello world");
+    equal(chunks.at(-1)?.choices?.[0].finish_reason, "stop");
+    ok(chunks.every((c) => c.id === chunks[0].id));
+  }, textReply("Hello", " world"));
+});
+
+Deno.test("chat: events split across reads are reassembled", async () => {
+  await withMock(async () => {
+    const response = await chat({ stream: true });
+    equal(streamedContent((await readEvents(response)).chunks), "héllo 世界, 你好");
+  }, { ...textReply("héllo 世界", ", 你好"), chunkSize: 3 });
+});
+
+Deno.test("chat: malformed events are skipped", async () => {
+  await withMock(async () => {
+    const response = await chat({});
+    equal((await response.json()).choices[0].message.content, "before after");
+  }, { events: [{ chunk: "before " }, "{not json", { chunk: "after" }, { done: true }] });
+});
+
+Deno.test("chat: reads that complete no event do not stall the stream", async () => {
+  await withMock(async () => {
+    const response = await chat({ stream: true });
+    equal(streamedContent((await readEvents(response)).chunks), "after");
+  }, { events: ["{not json", { chunk: "after" }, { done: true }], chunkSize: 5, delayMs: 5 });
+});
+
+Deno.test("chat: a mid-stream disconnect ends the stream with an error", async () => {
+  await withMock(async () => {
+    const response = await chat({ stream: true });
+    equal(response.status, 200);
+    const { chunks, done } = await readEvents(response);
+
+    equal(streamedContent(chunks), "partial");
+    ok(done);
+    equal(chunks.at(-1)?.error?.type, "server_error");
+    ok(!chunks.some((c) => c.choices?.[0]?.finish_reason === "stop"));
+  }, { events: [{ chunk: "partial" }], disconnect: true });
+});
+
+Deno.test("chat: only a leading <think> block of a reasoning model is reasoning", async () => {
+  await withMock(async () => {
+    const reasoning = (await (await chat({ model: "minimax/minimax-m2" })).json()).choices[0].message;
+    equal(reasoning.reasoning_content, "Plan.");
+    equal(reasoning.content, "Answer");
+
+    const mentioned = (await (await chat({})).json()).choices[0].message;
+    equal(mentioned.reasoning_content, undefined);
+    equal(mentioned.content, "Models write <think>plans</think> first.");
+  }, textReply("<thi", "nk>Plan.</th", "ink>Answer"), textReply("Models write <think>plans</think> first."));
+});
+
+Deno.test("chat: a client disconnect is still logged and metered", async () => {
+  await withMock(async () => {
+    const response = await chat({ stream: true });
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    const stats = await (await admin("/admin/stats")).json();
+    const [last] = stats.requests.recent;
+    equal(last.id, response.headers.get("x-request-id"));
+    equal(last.status, 499);
+    equal(last.error_class, "client_disconnected");
+    equal(stats.requests.in_flight, 1); // this request
+  }, { ...textReply("first", " second", " third"), chunkSize: 20, delayMs: 50 });
+});
+
+Deno.test("chat: several streamed choices are relayed in full, or until one fails", async () => {
+  await withMock(async () => {
+    const { chunks, done } = await readEvents(await chat({ stream: true, n: 2 }));
+    ok(done);
+    for (const index of [0, 1]) {
+      const own = chunks.filter((c) => c.choices?.[0]?.index === index);
+      equal(streamedContent(own), "one two three");
+      equal(own.at(-1)?.choices?.[0].finish_reason, "stop");
+    }
+  }, { ...textReply("one", " two", " three"), chunkSize: 16 }, textReply("one two", " three"));
+
+  await withMock(async () => {
+    const { chunks, done } = await readEvents(await chat({ stream: true, n: 2 }));
+    ok(done);
+    equal(chunks.at(-1)?.error?.type, "server_error");
+    // The slower choice is stopped before it finishes
+    ok(!chunks.some((c) => c.choices?.[0]?.finish_reason === "stop"));
+  }, { ...textReply("slow"), delayMs: 50, chunkSize: 8 }, { events: [{ chunk: "partial" }], disconnect: true });
+});
+
+Deno.test("chat: a truncated non-streaming answer is retried", async () => {
+  const truncated: MockReply = { events: [{ chunk: "partial" }], disconnect: true };
+
+  await withMock(async (mock) => {
+    const response = await chat({});
+    equal(response.status, 200);
+    equal((await response.json()).choices[0].message.content, "Hello from the mock");
+    equal(mock.requests.length, 2);
+  }, truncated);
+
+  await withMock(async (mock) => {
+    const response = await chat({});
+    equal(response.status, 502);
+    equal((await response.json()).error.code, "upstream_truncated");
+    equal(mock.requests.length, 3);
+  }, truncated, truncated, { events: [{ chunk: "partial" }] });
+});
+
+Deno.test("chat: an upstream error event is reported", async () => {
+  await withMock(async () => {
+    const response = await chat({ stream: true });
+    const { chunks } = await readEvents(response);
+    match(chunks.at(-1)?.error?.message ?? "", /model overloaded/);
+  }, { events: [{ chunk: "Hi" }, { error: "model overloaded" }] });
+});
+
+Deno.test("chat: a 401 benches the cookie and fails over to the next one", async () => {
+  await withMock(async (mock) => {
+    const response = await chat({});
+    equal(response.status, 200);
+    equal(mock.requests.length, 2);
+    ok(mock.requests[0].cookie !== mock.requests[1].cookie);
+    await sleep(60); // let the cookie cooldown expire
+  }, { status: 401 });
+});
+
+Deno.test("chat: 429 on every cookie returns 503 with Retry-After", async () => {
+  await withMock(async (mock) => {
+    const response = await chat({});
+    equal(response.status, 503);
+    ok(Number(response.headers.get("retry-after")) >= 1);
+    equal((await response.json()).error.code, "upstream_unavailable");
+    equal(mock.requests.length, 2);
+    await sleep(60);
+  }, { status: 429 }, { status: 429 });
+});
+
+Deno.test("chat: 5xx is retried", async () => {
+  await withMock(async (mock) => {
+    const response = await chat({});
+    equal(response.status, 200);
+    equal(mock.requests.length, 2);
+    await response.body?.cancel();
+  }, { status: 503 });
+});
+
+Deno.test("chat: persistent 5xx returns 502 after the retries", async () => {
+  await withMock(async (mock) => {
+    const response = await chat({});
+    equal(response.status, 502);
+    equal((await response.json()).error.type, "server_error");
+    equal(mock.requests.length, 3);
+  }, { status: 500 }, { status: 500 }, { status: 500 });
+});
+
+// ============================================================================
+// Responses API
+// ============================================================================
+
+Deno.test("responses: a streamed response is stored by the time it completes", async () => {
+  await withMock(async () => {
+    const response = await handler(new Request("http://localhost/v1/responses", {
+      method: "POST",
+      body: JSON.stringify({ model: "openai/gpt-4o", input: "Hi", stream: true }),
+    }));
+    equal(response.status, 200);
+
+    // Read up to response.completed, then look the response up before the stream closes
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let text = "";
+    while (!text.includes("event: response.completed")) {
+      const { value, done } = await reader.read();
+      ok(!done, "stream ended without response.completed");
+      text += value;
+    }
+    const id = text.match(/"id":"(resp_\w+)"/)?.[1];
+    ok(id);
+    const stored = await handler(new Request(`http://localhost/v1/responses/${id}`));
+    equal(stored.status, 200);
+    const body = await stored.json();
+    equal(body.status, "completed");
+    equal(body.output.at(-1).content[0].text, "Hello world");
+    await reader.cancel();
+  }, textReply("Hello", " world"));
+});
+
+// ============================================================================
+// Embeddings
+// ============================================================================
+
+// A fixed-vector provider: [length, 1, 0, 0] per input, one token per word
+registerEmbeddingProvider({
+  id: "test/embedder",
+  embed(inputs) {
+    return Promise.resolve({
+      vectors: inputs.map((input) => new Float32Array([input.length, 1, 0, 0])),
+      tokens: inputs.reduce((sum, input) => sum + input.split(" ").length, 0),
+    });
+  },
+});
+
+function embeddings(body: Record<string, unknown>): Promise<Response> {
+  return handler(new Request("http://localhost/v1/embeddings", {
+    method: "POST",
+    body: JSON.stringify({ model: "test/embedder", ...body }),
+  }));
+}
+
+Deno.test("embeddings: response matches the OpenAI list shape", async () => {
+  const response = await embeddings({ input: ["a b", "c"] });
+  equal(response.status, 200);
+  const body = await response.json();
+
+  equal(body.object, "list");
+  equal(body.model, "test/embedder");
+  deepStrictEqual(body.usage, { prompt_tokens: 3, total_tokens: 3 });
+  equal(body.data.length, 2);
+  deepStrictEqual(body.data.map((d: { object: string; index: number }) => [d.object, d.index]), [["embedding", 0], ["embedding", 1]]);
+
+  // Vectors are scaled to unit length
+  const [x, y] = body.data[0].embedding;
+  ok(Math.abs(x - 3 / Math.sqrt(10)) < 1e-6 && Math.abs(y - 1 / Math.sqrt(10)) < 1e-6);
+});
+
+Deno.test("embeddings: base64 encoding and dimensions", async () => {
+  const response = await embeddings({ input: "abc", encoding_format: "base64", dimensions: 2 });
+  const encoded = (await response.json()).data[0].embedding;
+  const vector = new Float32Array(Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0)).buffer);
+
+  equal(vector.length, 2);
+  ok(Math.abs(vector[0] - 3 / Math.sqrt(10)) < 1e-6);
+
+  const tooMany = await embeddings({ input: "abc", dimensions: 8 });
+  equal(tooMany.status, 400);
+  equal((await tooMany.json()).error.code, "invalid_value");
+});
+
+Deno.test("embeddings: invalid inputs and unknown models", async () => {
+  for (const input of ["", [], [[1, 2]], 42]) {
+    const response = await embeddings({ input });
+    equal(response.status, 400);
+    equal((await response.json()).error.type, "invalid_request_error");
+  }
+
+  const unknown = await embeddings({ model: "openai/gpt-4o", input: "x" });
+  equal(unknown.status, 404);
+  equal((await unknown.json()).error.code, "model_not_found");
+});
+
+Deno.test("embeddings: models are listed next to the chat models", async () => {
+  const body = await (await handler(new Request("http://localhost/v1/models"))).json();
+  const ids = body.data.map((m: { id: string }) => m.id);
+  ok(ids.includes("openai/gpt-4o"));
+  ok(ids.includes("test/embedder"));
+});
+
+// ============================================================================
+// Admin API
+// ============================================================================
+
+function admin(path: string, init: RequestInit = {}): Promise<Response> {
+  return handler(new Request(`http://localhost${path}`, {
+    ...init,
+    headers: { Authorization: "Bearer admin-secret" },
+  }));
+}
+
+function patchConfig(patch: Record<string, unknown>): Promise<Response> {
+  return admin("/admin/config", { method: "PATCH", body: JSON.stringify(patch) });
+}
+
+Deno.test("admin: GET /admin/config masks secrets and reports sources", async () => {
+  const denied = await handler(new Request("http://localhost/admin/config"));
+  equal(denied.status, 401);
+
+  const body = await (await admin("/admin/config")).json();
+  equal(body.store, "memory");
+  // Cookies show only a hash: their names and values stay hidden
+  equal(body.config.infiniax_cookies.length, 2);
+  ok(body.config.infiniax_cookies.every((c: string) => /^cookie:[0-9a-f]{8}…$/.test(c)));
+  ok(body.config.infiniax_cookies[0] !== body.config.infiniax_cookies[1]);
+  equal(body.sources.infiniax_cookies, "env");
+  equal(body.config.upstream_retry_base_ms, 1);
+  equal(body.sources.rate_limit_rpm, "default");
+  deepStrictEqual(body.errors, []);
+});
+
+Deno.test("admin: PATCH /admin/config rejects unknown and invalid settings", async () => {
+  for (const patch of [{ no_such_setting: 1 }, { rate_limit_rpm: -1 }, { model_routes: [{ targets: [] }] }]) {
+    const response = await patchConfig(patch);
+    equal(response.status, 400);
+    equal((await response.json()).error.type, "invalid_request_error");
+  }
+  const invalidJson = await admin("/admin/config", { method: "PATCH", body: "{" });
+  equal(invalidJson.status, 400);
+
+  const body = await (await admin("/admin/config")).json();
+  equal(body.updated_at, null);
+});
+
+Deno.test("admin: PATCH /admin/config applies settings without a restart", async () => {
+  const updated = await patchConfig({ proxy_api_keys: [{ key: "sk-test-key", label: "tester" }] });
+  equal(updated.status, 200);
+  const view = await updated.json();
+  equal(view.sources.proxy_api_keys, "config");
+  deepStrictEqual(view.config.proxy_api_keys, [{ key: "sk-test-…", label: "tester" }]);
+  ok(view.updated_at);
+
+  try {
+    equal((await handler(new Request("http://localhost/v1/models"))).status, 401);
+    const authorized = await handler(new Request("http://localhost/v1/models", {
+      headers: { Authorization: "Bearer sk-test-key" },
+    }));
+    equal(authorized.status, 200);
+
+    // Masked secrets sent back unchanged are kept as they are
+    await patchConfig({ proxy_api_keys: view.config.proxy_api_keys, infiniax_cookies: view.config.infiniax_cookies });
+    const again = await (await admin("/admin/config")).json();
+    equal(again.sources.infiniax_cookies, "env");
+    equal((await handler(new Request("http://localhost/v1/models", {
+      headers: { Authorization: "Bearer sk-test-key" },
+    }))).status, 200);
+
+    // Adding an entry to the masked list keeps the masked entries' secrets
+    const added = await patchConfig({ proxy_api_keys: [...view.config.proxy_api_keys, { key: "sk-second-key" }] });
+    equal(added.status, 200);
+    await added.body?.cancel();
+    for (const key of ["sk-test-key", "sk-second-key"]) {
+      equal((await handler(new Request("http://localhost/v1/models", {
+        headers: { Authorization: `Bearer ${key}` },
+      }))).status, 200, key);
+    }
+
+    const cookies = await patchConfig({ infiniax_cookies: [view.config.infiniax_cookies[0], "session=new"] });
+    equal(cookies.status, 200);
+    await cookies.body?.cancel();
+
+    // A masked value that matches no current secret is never stored
+    const stale = await patchConfig({ infiniax_cookies: ["cookie:00000000…"] });
+    equal(stale.status, 400);
+    equal((await stale.json()).error.code, "invalid_setting");
+    await patchConfig({ infiniax_cookies: null });
+  } finally {
+    const restored = await (await patchConfig({ proxy_api_keys: null })).json();
+    equal(restored.sources.proxy_api_keys, "default");
+  }
+  equal((await handler(new Request("http://localhost/v1/models"))).status, 200);
+});
+
+Deno.test("admin: fallbacks never stand in for an unknown or forbidden model", async () => {
+  await patchConfig({
+    model_fallbacks: { "*": ["openai/gpt-4o"] },
+    proxy_api_keys: [{ key: "sk-gpt-only", models: ["openai/gpt-4o"] }],
+  });
+  try {
+    const request = (model: string) => handler(new Request("http://localhost/v1/chat/completions", {
+      method: "POST",
+      headers: { Authorization: "Bearer sk-gpt-only" },
+      body: JSON.stringify({ model, messages: [{ role: "user", content: "Hi" }] }),
+    }));
+    const unknown = await request("openai/gpt-4o-typo");
+    equal(unknown.status, 404);
+    equal((await unknown.json()).error.code, "model_not_found");
+
+    const forbidden = await request("anthropic/claude-sonnet-4");
+    equal(forbidden.status, 403);
+    await forbidden.body?.cancel();
+  } finally {
+    await patchConfig({ model_fallbacks: null, proxy_api_keys: null });
+  }
+});
+
+Deno.test("admin: a quota on a label is shared by the label's keys", async () => {
+  await patchConfig({
+    proxy_api_keys: [{ key: "sk-team-one", label: "team-q" }, { key: "sk-team-two", label: "team-q" }],
+    usage_quotas: [{ key: "team-q", max_requests: 1 }],
+  });
+  try {
+    const request = (key: string) => handler(new Request("http://localhost/v1/chat/completions", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${key}` },
+      body: JSON.stringify({ model: "openai/gpt-4o", messages: [{ role: "user", content: "Hi" }] }),
+    }));
+    await withMock(async () => {
+      const first = await request("sk-team-one");
+      equal(first.status, 200);
+      await first.body?.cancel();
+      await sleep(20); // usage is recorded in the background
+
+      const second = await request("sk-team-two");
+      equal(second.status, 429);
+      equal((await second.json()).error.code, "insufficient_quota");
+    });
+  } finally {
+    await patchConfig({ proxy_api_keys: null, usage_quotas: null });
+  }
+});
+
+Deno.test("admin: every choice of n > 1 counts against quotas and rate limits", async () => {
+  await patchConfig({ usage_quotas: [{ max_requests: 2 }] });
+  try {
+    const overQuota = await chat({ n: 3 });
+    equal(overQuota.status, 429);
+    equal((await overQuota.json()).error.code, "insufficient_quota");
+  } finally {
+    await patchConfig({ usage_quotas: null });
+  }
+
+  await patchConfig({ rate_limit_rpm: 60, rate_limit_burst: 2 });
+  try {
+    const limited = await chat({ n: 3 });
+    equal(limited.status, 429);
+    equal((await limited.json()).error.code, "rate_limit_exceeded");
+  } finally {
+    await patchConfig({ rate_limit_rpm: null, rate_limit_burst: null });
+  }
+});
+
+Deno.test("admin: the model list decides which models get <think> parsing", async () => {
+  await patchConfig({ infiniax_models: [{ id: "acme/thinker", reasoning: true }, { id: "acme/plain" }] });
+  try {
+    await withMock(async () => {
+      const flagged = (await (await chat({ model: "acme/thinker" })).json()).choices[0].message;
+      equal(flagged.reasoning_content, "Plan.");
+      equal(flagged.content, "Answer");
+
+      const plain = (await (await chat({ model: "acme/plain" })).json()).choices[0].message;
+      equal(plain.reasoning_content, undefined);
+      equal(plain.content, "<think>Plan.</think>Answer");
+    }, textReply("<think>Plan.</think>Answer"), textReply("<think>Plan.</think>Answer"));
+  } finally {
+    await patchConfig({ infiniax_models: null });
+  }
+});
+
+Deno.test("admin: GET /admin/stats reports requests and upstream state", async () => {
+  await handler(new Request("http://localhost/v1/models"));
+  const stats = await (await admin("/admin/stats")).json();
+
+  ok(stats.requests.total > 0);
+  equal(stats.requests.in_flight, 1); // this request
+  ok(stats.requests.by_route.some((r: { route: string }) => r.route === "/v1/models"));
+  equal(stats.requests.recent[0].route, "/v1/models");
+  equal(stats.upstream.cookies, 2);
+  equal(stats.models.source, "builtin");
+});
+
+Deno.test("admin: GET /admin serves the dashboard", async () => {
+  const response = await handler(new Request("http://localhost/admin"));
+  equal(response.status, 200);
+  match(response.headers.get("content-type")!, /^text\/html/);
+  match(await response.text(), /\/admin\/stats/);
+});
+
+// ============================================================================
+// Legacy Completions
+// ============================================================================
+
+function completion(body: Record<string, unknown>): Promise<Response> {
+  return handler(new Request("http://localhost/v1/completions", {
+    method: "POST",
+    body: JSON.stringify({ model: "openai/gpt-4o", ...body }),
+  }));
+}
+
+Deno.test("completions: prompts are sent as user messages, one choice per prompt", async () => {
+  await withMock(async (mock) => {
+    const response = await completion({ prompt: ["Say A", "Say B"], echo: true, suffix: "!" });
+    equal(response.status, 200);
+    equal(response.headers.get("x-unsupported-params"), "suffix");
+    const body = await response.json();
+
+    match(body.id, /^cmpl-/);
+    equal(body.object, "text_completion");
+    deepStrictEqual(body.choices, [
+      { text: "Say AA", index: 0, logprobs: null, finish_reason: "stop" },
+      { text: "Say BB", index: 1, logprobs: null, finish_reason: "stop" },
+    ]);
+    equal(body.usage.total_tokens, body.usage.prompt_tokens + body.usage.completion_tokens);
+    deepStrictEqual(mock.requests.map((r) => r.body.messages), [
+      [{ role: "user", content: "Say A" }],
+      [{ role: "user", content: "Say B" }],
+    ]);
+  }, textReply("A"), textReply("B"));
+});
+
+Deno.test("completions: streaming sends text_completion chunks and ends with [DONE]", async () => {
+  await withMock(async () => {
+    const response = await completion({ prompt: "Hi", stream: true });
+    equal(response.status, 200);
+
+    const { chunks, done } = await readEvents(response);
+    ok(done);
+    ok(chunks.every((c) => c.object === "text_completion"));
+    equal(chunks.map((c) => c.choices?.[0].text).join(""), "Hello world");
+    equal(chunks.at(-1)?.choices?.[0].finish_reason, "stop");
+  }, textReply("Hello", " world"));
+});
+
+Deno.test("completions: token prompts and missing prompts are rejected", async () => {
+  for (const prompt of [[1, 2, 3], "", undefined]) {
+    const response = await completion({ prompt });
+    equal(response.status, 400);
+    equal((await response.json()).error.type, "invalid_request_error");
+  }
+});
+
+// ============================================================================
+// Files & Batches
+// ============================================================================
+
+function api(path: string, init: RequestInit = {}): Promise<Response> {
+  return handler(new Request(`http://localhost${path}`, init));
+}
+
+async function uploadBatchFile(lines: unknown[]): Promise<string> {
+  const form = new FormData();
+  form.append("purpose", "batch");
+  form.append("file", new File([lines.map((line) => JSON.stringify(line)).join("\n")], "input.jsonl"));
+  const response = await api("/v1/files", { method: "POST", body: form });
+  equal(response.status, 200);
+  return (await response.json()).id;
+}
+
+function createBatch(inputFileId: string): Promise<Response> {
+  return api("/v1/batches", {
+    method: "POST",
+    body: JSON.stringify({ input_file_id: inputFileId, endpoint: "/v1/chat/completions", completion_window: "24h" }),
+  });
+}
+
+/**
+ * The fields the tests read from a batch object.
+ */
+interface Batch {
+  id: string;
+  status: string;
+  request_counts: { total: number; completed: number; failed: number };
+  completed_at: number | null;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  errors?: { data: { code: string; line: number }[] };
+}
+
+/**
+ * One line of a batch output or error file.
+ */
+interface BatchResultLine {
+  custom_id: string;
+  response: { status_code: number; body: { choices?: { message: { content: string } }[] } } | null;
+  error: { code: string; message: string } | null;
+}
+
+/**
+ * Polls a batch until it reaches a final status.
+ */
+async function waitForBatch(id: string): Promise<Batch> {
+  for (let i = 0; i < 100; i++) {
+    const batch: Batch = await (await api(`/v1/batches/${id}`)).json();
+    if (["completed", "failed", "expired", "cancelled"].includes(batch.status)) {
+      return batch;
+    }
+    await sleep(20);
+  }
+  throw new Error(`batch ${id} did not finish`);
+}
+
+async function readJsonl(fileId: string | null): Promise<BatchResultLine[]> {
+  const text = await (await api(`/v1/files/${fileId}/content`)).text();
+  return text.trim().split("\n").map((line): BatchResultLine => JSON.parse(line));
+}
+
+Deno.test("batches: lines run in the background into output and error files", async () => {
+  await withMock(async () => {
+    const line = (id: string, model: string) => ({
+      custom_id: id,
+      method: "POST",
+      url: "/v1/chat/completions",
+      body: { model, messages: [{ role: "user", content: "Hi" }], stream: true },
+    });
+    const fileId = await uploadBatchFile([line("a", "openai/gpt-4o"), line("b", "nope/unknown"), line("c", "openai/gpt-4o")]);
+    const file = await (await api(`/v1/files/${fileId}`)).json();
+    equal(file.purpose, "batch");
+    equal(file.filename, "input.jsonl");
+
+    const created = await createBatch(fileId);
+    equal(created.status, 200);
+    const { id, status } = await created.json();
+    match(id, /^batch_/);
+    equal(status, "validating");
+
+    const batch = await waitForBatch(id);
+    equal(batch.status, "completed");
+    deepStrictEqual(batch.request_counts, { total: 3, completed: 2, failed: 1 });
+    equal(typeof batch.completed_at, "number");
+
+    const output = await readJsonl(batch.output_file_id);
+    deepStrictEqual(output.map((r) => r.custom_id), ["a", "c"]);
+    equal(output[0].response?.status_code, 200);
+    equal(output[0].response?.body.choices?.[0].message.content, "Hello from the mock");
+    equal(output[0].error, null);
+
+    const [failed] = await readJsonl(batch.error_file_id);
+    equal(failed.custom_id, "b");
+    equal(failed.response?.status_code, 404);
+    equal(failed.error?.code, "model_not_found");
+
+    const listed = await (await api("/v1/batches?limit=1")).json();
+    equal(listed.data[0].id, id);
+    const outputs = await (await api("/v1/files?purpose=batch_output")).json();
+    ok(outputs.data.some((f: { id: string }) => f.id === batch.output_file_id));
+
+    // Finished batches cannot be cancelled
+    const cancel = await api(`/v1/batches/${id}/cancel`, { method: "POST" });
+    equal(cancel.status, 409);
+  });
+});
+
+Deno.test("batches: lines wait for the caller's rate limit", async () => {
+  await withMock(async (mock) => {
+    const fileId = await uploadBatchFile([
+      { custom_id: "a", method: "POST", url: "/v1/chat/completions", body: { model: "openai/gpt-4o", messages: [{ role: "user", content: "Hi" }] } },
+    ]);
+    await patchConfig({ rate_limit_rpm: 120, rate_limit_burst: 1 });
+    try {
+      // Creating the batch takes the only token: the line waits for the next one
+      const started = Date.now();
+      const batch = await waitForBatch((await (await createBatch(fileId)).json()).id);
+      equal(batch.status, "completed");
+      equal(mock.requests.length, 1);
+      ok(Date.now() - started >= 400, "the line did not wait for a token");
+    } finally {
+      await patchConfig({ rate_limit_rpm: null, rate_limit_burst: null });
+    }
+  });
+});
+
+Deno.test("batches: invalid input lines fail the batch with line errors", async () => {
+  const fileId = await uploadBatchFile([
+    { custom_id: "a", method: "POST", url: "/v1/embeddings", body: {} },
+    { custom_id: "a", method: "POST", url: "/v1/chat/completions", body: {} },
+  ]);
+  const batch = await waitForBatch((await (await createBatch(fileId)).json()).id);
+  equal(batch.status, "failed");
+  deepStrictEqual(batch.errors?.data.map((e) => [e.code, e.line]), [
+    ["mismatched_url", 1],
+    ["duplicate_custom_id", 2],
+  ]);
+});
+
+Deno.test("batches: invalid requests and unknown files", async () => {
+  const missing = await createBatch("file-missing");
+  equal(missing.status, 404);
+
+  const fileId = await uploadBatchFile([{ custom_id: "a", method: "POST", url: "/v1/chat/completions", body: {} }]);
+  const wrongEndpoint = await api("/v1/batches", {
+    method: "POST",
+    body: JSON.stringify({ input_file_id: fileId, endpoint: "/v1/moderations", completion_window: "24h" }),
+  });
+  equal(wrongEndpoint.status, 400);
+  equal((await wrongEndpoint.json()).error.code, "invalid_value");
+
+  const deleted = await (await api(`/v1/files/${fileId}`, { method: "DELETE" })).json();
+  deepStrictEqual(deleted, { id: fileId, object: "file", deleted: true });
+  equal((await api(`/v1/files/${fileId}`)).status, 404);
+});
+
+Deno.test("files: oversized uploads are rejected without reading the whole body", async () => {
+  const headers = { "Content-Type": "multipart/form-data; boundary=x" };
+  const declared = await api("/v1/files", {
+    method: "POST",
+    headers: { ...headers, "Content-Length": String(1024 ** 3) },
+    body: "--x--",
+  });
+  equal(declared.status, 413);
+  equal((await declared.json()).error.code, "file_too_large");
+
+  // A body without a length is cut off just past the limit
+  let pulled = 0;
+  const chunk = new Uint8Array(1024 * 1024);
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pulled++;
+      controller.enqueue(chunk);
+    },
+  });
+  const streamed = await api("/v1/files", { method: "POST", headers, body });
+  equal(streamed.status, 413);
+  ok(pulled < 60, `read ${pulled} MiB`);
+});
@@ -0,0 +1,147 @@
+// mock_upstream.ts: scriptable stand-in for the infiniax API, used by the tests
+// Serves POST /api/chat/stream and GET /api/models on a random local port.
+// Point the proxy at it with setUpstream({ chatUrl: mock.url, modelsUrl: mock.modelsUrl }).
+
+/**
+ * One SSE message. Objects are sent as `data: {json}`; strings are sent
+ * verbatim as the data payload, e.g. "{not json" for a malformed event.
+ */
+export type MockEvent = Record<string, unknown> | string;
+
+/**
+ * A scripted reply to one chat request:
+ * - status: an error reply (401/429/5xx...) with an optional body and headers
+ * - events: an SSE stream. chunkSize splits the encoded stream into pieces
+ *   of that many bytes (splitting lines and UTF-8 characters), delayMs
+ *   pauses between pieces, and disconnect aborts the connection after the
+ *   last piece instead of closing it cleanly.
+ */
+export type MockReply =
+  | { status: number; body?: string; headers?: Record<string, string> }
+  | { events: MockEvent[]; chunkSize?: number; delayMs?: number; disconnect?: boolean };
+
+/**
+ * A chat request received by the mock.
+ */
+export interface MockRequest {
+  cookie: string | null;
+  body: Record<string, unknown>;
+}
+
+export interface MockUpstream {
+  url: string;
+  modelsUrl: string;
+  // Chat requests received so far, oldest first
+  requests: MockRequest[];
+  // Queues replies for the next chat requests, in order
+  reply(...replies: MockReply[]): void;
+  close(): Promise<void>;
+}
+
+export interface MockUpstreamOptions {
+  // Catalog served by /api/models
+  models?: Record<string, unknown>[];
+  // Reply used when the queue is empty
+  fallback?: MockReply;
+}
+
+const DEFAULT_MODELS = [
+  { id: "openai/gpt-4o", name: "GPT-4o", provider: "OpenAI", contextLength: 128000 },
+  { id: "openai/gpt-5-nano", name: "GPT-5 Nano", provider: "OpenAI", contextLength: 400000 },
+  { id: "anthropic/claude-sonnet-4", name: "Claude Sonnet 4", provider: "Anthropic", contextLength: 200000 },
+];
+
+/**
+ * Builds a streamed text answer: one chunk event per piece, then done.
+ */
+export function textReply(...pieces: string[]): Extract<MockReply, { events: MockEvent[] }> {
+  return { events: [...pieces.map((chunk) => ({ chunk })), { done: true }] };
+}
+
+/**
+ * Encodes events in the infiniax SSE format (data: {...}\n\n).
+ */
+export function encodeEvents(events: MockEvent[]): Uint8Array {
+  const text = events
+    .map((event) => `data: ${typeof event === "string" ? event : JSON.stringify(event)}\n\n`)
+    .join("");
+  return new TextEncoder().encode(text);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function streamReply(reply: Extract<MockReply, { events: MockEvent[] }>): Response {
+  const bytes = encodeEvents(reply.events);
+  const size = reply.chunkSize && reply.chunkSize > 0 ? reply.chunkSize : bytes.length || 1;
+  let offset = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (offset > 0 && reply.delayMs) {
+        await sleep(reply.delayMs);
+      }
+      if (offset < bytes.length) {
+        controller.enqueue(bytes.slice(offset, offset + size));
+        offset += size;
+        return;
+      }
+      if (reply.disconnect) {
+        controller.error(new Error("mock upstream disconnected"));
+      } else {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+/**
+ * Starts a mock infiniax server on 127.0.0.1 with a random port.
+ */
+export function startMockUpstream(options: MockUpstreamOptions = {}): MockUpstream {
+  const queue: MockReply[] = [];
+  const requests: MockRequest[] = [];
+  const fallback = options.fallback ?? textReply("Hello from the mock");
+
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen: () => {} }, async (req) => {
+    const path = new URL(req.url).pathname;
+
+    if (req.method === "GET" && path === "/api/models") {
+      return new Response(JSON.stringify({ models: options.models ?? DEFAULT_MODELS }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (req.method === "POST" && path === "/api/chat/stream") {
+      requests.push({ cookie: req.headers.get("cookie"), body: await req.json() });
+      const reply = queue.shift() ?? fallback;
+      if ("status" in reply) {
+        return new Response(reply.body ?? JSON.stringify({ error: `mock error ${reply.status}` }), {
+          status: reply.status,
+          headers: reply.headers,
+        });
+      }
+      return streamReply(reply);
+    }
+
+    return new Response("Not found", { status: 404 });
+  });
+
+  const origin = `http://127.0.0.1:${server.addr.port}`;
+  return {
+    url: `${origin}/api/chat/stream`,
+    modelsUrl: `${origin}/api/models`,
+    requests,
+    reply(...replies) {
+      queue.push(...replies);
+    },
+    close() {
+      return server.shutdown();
+    },
+  };
+}